@@ -0,0 +1,27 @@
+import type {MonitorError} from './index.js';
+
+/**
+ * Turns the abort of a signal into a MonitorError. A signal from `AbortSignal.timeout()` gives a 'timeout_error',
+ * like the built-in timeouts; any other abort gives 'aborted'. The abort reason is kept as `rawError`.
+ * @param signal The aborted signal.
+ * @param operation What was aborted, for the message, e.g. 'getDataOnce'.
+ */
+export function createAbortError(signal: AbortSignal, operation: string): MonitorError {
+  const timedOut = signal.reason?.name === 'TimeoutError';
+  const err: MonitorError = new Error(
+    timedOut ? `${operation} timed out (AbortSignal).` : `${operation} was aborted.`,
+  ) as MonitorError;
+  err.type = timedOut ? 'timeout_error' : 'aborted';
+  err.rawError = signal.reason;
+  return err;
+}
+
+/**
+ * Throws the abort error of an already aborted signal.
+ * @param signal Optional signal to check.
+ * @param operation What is being aborted, for the message.
+ * @throws MonitorError if the signal has been aborted.
+ */
+export function throwIfAborted(signal: AbortSignal | undefined, operation: string): void {
+  if (signal?.aborted) throw createAbortError(signal, operation);
+}
@@ -0,0 +1,262 @@
+import {EventEmitter} from 'node:events';
+import type {HardwareItemInfo, HardwareReport, SensorInfo} from './index.js';
+import {ReportCategory, SensorIndex} from './sensor_query.js';
+
+/**
+ * JSON-serialisable sensor selector. Same semantics as SensorFilter, with globs instead of RegExp.
+ */
+export type AlertTarget = {
+  identifier?: string;
+  category?: ReportCategory;
+  hardwareType?: string;
+  type?: string;
+  name?: string;
+  hardwareName?: string;
+  path?: string;
+};
+
+export type AlertRule = {
+  /** Unique rule id. Adding a rule with an existing id replaces it. */
+  id: string;
+  target: AlertTarget;
+  /** Fires when the value rises above this threshold. */
+  above?: number;
+  /** Fires when the value drops below this threshold. */
+  below?: number;
+  /** Margin the value must move back past the threshold before the alert clears. Defaults to 0. */
+  hysteresis?: number;
+  /** How long the threshold must be crossed continuously before firing. Defaults to 0. */
+  durationMs?: number;
+  /** Minimum time between two alerts of this rule for the same sensor. Defaults to 0. */
+  cooldownMs?: number;
+  /** Disabled rules are kept but not evaluated. Defaults to true. */
+  enabled?: boolean;
+  /** Free-form text carried on emitted events. */
+  message?: string;
+};
+
+export type AlertDirection = 'above' | 'below';
+
+export type AlertEvent = {
+  ruleId: string;
+  rule: AlertRule;
+  sensor: SensorInfo;
+  hardware: HardwareItemInfo;
+  category: ReportCategory;
+  path: string[];
+  value: number;
+  threshold: number;
+  direction: AlertDirection;
+  /** Epoch milliseconds when the threshold was first crossed. */
+  since: number;
+  /** Epoch milliseconds of the report that triggered the event. */
+  timestamp: number;
+};
+
+export type AlertClearedEvent = AlertEvent & {
+  /** How long the alert was active, in milliseconds. */
+  activeForMs: number;
+};
+
+type SensorAlertState = {
+  conditionSince: number | null;
+  direction: AlertDirection | null;
+  active: AlertEvent | null;
+  lastAlertAt: number | null;
+};
+
+function validateRule(rule: AlertRule): void {
+  if (!rule || typeof rule.id !== 'string' || rule.id.length === 0) {
+    throw new Error('Alert rule requires a non-empty string id.');
+  }
+  if (!rule.target || typeof rule.target !== 'object') {
+    throw new Error(`Alert rule '${rule.id}' requires a target.`);
+  }
+  if (typeof rule.above !== 'number' && typeof rule.below !== 'number') {
+    throw new Error(`Alert rule '${rule.id}' requires an 'above' or 'below' threshold.`);
+  }
+  for (const key of ['hysteresis', 'durationMs', 'cooldownMs'] as const) {
+    const value = rule[key];
+    if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+      throw new Error(`Alert rule '${rule.id}' has an invalid '${key}': must be a non-negative number.`);
+    }
+  }
+}
+
+/**
+ * Evaluates threshold rules against reports and emits 'alert' / 'alertCleared' events.
+ * State is tracked per rule and sensor Identifier, so one rule can watch many sensors.
+ */
+export class AlertEngine extends EventEmitter {
+  private readonly rules = new Map<string, AlertRule>();
+  private readonly states = new Map<string, Map<string, SensorAlertState>>();
+
+  constructor(rules: AlertRule[] = []) {
+    super();
+    for (const rule of rules) this.addRule(rule);
+  }
+
+  /**
+   * Creates an engine from rules previously produced by toJSON().
+   * @param json JSON string or parsed rule array.
+   */
+  public static fromJSON(json: string | AlertRule[]): AlertEngine {
+    const engine = new AlertEngine();
+    engine.loadRules(json);
+    return engine;
+  }
+
+  /**
+   * Adds or replaces a rule. Replacing a rule resets its state.
+   * @param rule The rule to add.
+   * @throws Error if the rule is malformed.
+   */
+  public addRule(rule: AlertRule): void {
+    validateRule(rule);
+    this.rules.set(rule.id, {...rule, target: {...rule.target}});
+    this.states.set(rule.id, new Map());
+  }
+
+  /**
+   * Removes a rule and its state. Active alerts of the rule are dropped without an 'alertCleared' event.
+   * @param id Rule id.
+   * @returns True if the rule existed.
+   */
+  public removeRule(id: string): boolean {
+    this.states.delete(id);
+    return this.rules.delete(id);
+  }
+
+  /** Removes all rules. */
+  public clearRules(): void {
+    this.rules.clear();
+    this.states.clear();
+  }
+
+  /** Returns a copy of all rules. */
+  public getRules(): AlertRule[] {
+    return [...this.rules.values()].map(rule => ({...rule, target: {...rule.target}}));
+  }
+
+  /** Returns all currently active alerts. */
+  public getActiveAlerts(): AlertEvent[] {
+    const active: AlertEvent[] = [];
+    for (const ruleStates of this.states.values()) {
+      for (const state of ruleStates.values()) {
+        if (state.active) active.push(state.active);
+      }
+    }
+    return active;
+  }
+
+  /**
+   * Replaces all rules with the given ones.
+   * @param json JSON string or parsed rule array.
+   */
+  public loadRules(json: string | AlertRule[]): void {
+    const rules: unknown = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!Array.isArray(rules)) {
+      throw new Error('Alert rules JSON must be an array.');
+    }
+    rules.forEach(rule => validateRule(rule));
+    this.clearRules();
+    for (const rule of rules) this.addRule(rule);
+  }
+
+  /** Serialisable rule list; `JSON.stringify(engine)` produces the persisted form. */
+  public toJSON(): AlertRule[] {
+    return this.getRules();
+  }
+
+  /**
+   * Evaluates all enabled rules against a report.
+   * Sensors with a `null` value are skipped and keep their current state.
+   * @param report The report to evaluate.
+   */
+  public evaluate(report: HardwareReport): void {
+    const parsed = Date.parse(report.Timestamp);
+    const timestamp = Number.isNaN(parsed) ? Date.now() : parsed;
+    const index = new SensorIndex(report);
+
+    for (const rule of this.rules.values()) {
+      if (rule.enabled === false) continue;
+      const ruleStates = this.states.get(rule.id)!;
+
+      for (const entry of index.find(rule.target)) {
+        const value = entry.sensor.Value;
+        if (value === null || !Number.isFinite(value)) continue;
+
+        let state = ruleStates.get(entry.sensor.Identifier);
+        if (!state) {
+          state = {conditionSince: null, direction: null, active: null, lastAlertAt: null};
+          ruleStates.set(entry.sensor.Identifier, state);
+        }
+
+        const event: AlertEvent = {
+          ruleId: rule.id,
+          rule,
+          sensor: entry.sensor,
+          hardware: entry.hardware,
+          category: entry.category,
+          path: entry.path,
+          value,
+          threshold: 0,
+          direction: 'above',
+          since: timestamp,
+          timestamp,
+        };
+
+        if (state.active) {
+          if (this.isCleared(rule, state.active.direction, value)) {
+            const cleared: AlertClearedEvent = {
+              ...event,
+              threshold: state.active.threshold,
+              direction: state.active.direction,
+              since: state.active.since,
+              activeForMs: timestamp - state.active.timestamp,
+            };
+            state.active = null;
+            state.conditionSince = null;
+            state.direction = null;
+            this.emit('alertCleared', cleared);
+          }
+          continue;
+        }
+
+        const direction = this.breachDirection(rule, value);
+        if (!direction) {
+          state.conditionSince = null;
+          state.direction = null;
+          continue;
+        }
+        if (state.direction !== direction) {
+          state.conditionSince = timestamp;
+          state.direction = direction;
+        }
+
+        const heldFor = timestamp - (state.conditionSince ?? timestamp);
+        const cooledDown = state.lastAlertAt === null || timestamp - state.lastAlertAt >= (rule.cooldownMs ?? 0);
+        if (heldFor >= (rule.durationMs ?? 0) && cooledDown) {
+          event.direction = direction;
+          event.threshold = direction === 'above' ? rule.above! : rule.below!;
+          event.since = state.conditionSince ?? timestamp;
+          state.active = event;
+          state.lastAlertAt = timestamp;
+          this.emit('alert', event);
+        }
+      }
+    }
+  }
+
+  private breachDirection(rule: AlertRule, value: number): AlertDirection | null {
+    if (rule.above !== undefined && value > rule.above) return 'above';
+    if (rule.below !== undefined && value < rule.below) return 'below';
+    return null;
+  }
+
+  private isCleared(rule: AlertRule, direction: AlertDirection, value: number): boolean {
+    const hysteresis = rule.hysteresis ?? 0;
+    if (direction === 'above') return rule.above === undefined || value <= rule.above - hysteresis;
+    return rule.below === undefined || value >= rule.below + hysteresis;
+  }
+}
@@ -0,0 +1,53 @@
+import type {DownloadOptions} from './cli_downloader.js';
+import type {ComponentType, HardwareReport} from './index.js';
+import type {RequirementsReport} from './requirements.js';
+import type {TimedProcess} from './timed_session.js';
+
+/**
+ * Source of hardware reports behind getDataOnce/startTimed.
+ * Reports are returned as produced by the source; HardwareMonitor fills in missing arrays and uptime.
+ */
+export interface MonitorBackend {
+  /** Short identifier, e.g. 'cli' or 'linux'. */
+  readonly name: string;
+  /** True once the backend can produce reports. */
+  readonly ready: boolean;
+
+  /**
+   * Prepares the backend, e.g. checks the runtime and downloads the CLI.
+   * @param targetDir Directory the backend may use for its files.
+   * @param download Options for backends that download their tools.
+   */
+  checkRequirements?(targetDir: string, download?: DownloadOptions): Promise<void>;
+
+  /**
+   * Reports what the backend needs and what was found, without changing anything.
+   * @param signal Aborts the checks, e.g. the `dotnet` probes.
+   * @returns The requirements report.
+   */
+  diagnose?(signal?: AbortSignal): Promise<RequirementsReport>;
+
+  /**
+   * Collects a single report.
+   * @param components Requested components; empty or undefined means all.
+   * @param timeoutMs Time limit for the collection.
+   * @param signal Aborts the collection; a spawned process is killed.
+   * @throws MonitorError on failure, timeout or abort.
+   */
+  readOnce(components: ComponentType[] | undefined, timeoutMs: number, signal?: AbortSignal): Promise<HardwareReport>;
+
+  /**
+   * Starts a timed source that writes one JSON report per interval to its stdout.
+   * @param intervalMs Interval between reports.
+   * @param components Requested components; empty or undefined means all.
+   */
+  launchTimed(intervalMs: number, components: ComponentType[] | undefined): TimedProcess;
+}
+
+/**
+ * Requested components without the ones HardwareMonitor handles itself ('uptime').
+ * @param components Components as passed to getDataOnce/startTimed.
+ */
+export function backendComponents(components?: ComponentType[]): ComponentType[] {
+  return (components ?? []).filter(comp => comp !== 'uptime');
+}
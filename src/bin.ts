@@ -0,0 +1,392 @@
+#!/usr/bin/env node
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {parseArgs} from 'node:util';
+import HardwareMonitor, {
+  ComponentType,
+  DownloadProgress,
+  flattenReport,
+  HardwareReport,
+  LinuxBackend,
+  LogLevel,
+  MonitorError,
+  RequirementsReport,
+  SensorEntry,
+} from './index.js';
+
+type OutputFormat = 'table' | 'json';
+
+type CommandOptions = {
+  dir: string;
+  interval: number;
+  components: ComponentType[] | undefined;
+  format: OutputFormat;
+  logLevel: LogLevel;
+  backend: 'cli' | 'linux';
+  dotnet: string | undefined;
+  timeout: number;
+};
+
+/** Exit codes, one per MonitorError type so scripts can tell failures apart. */
+const EXIT_CODES = {
+  ok: 0,
+  unexpected: 1,
+  usage: 2,
+  requirements_error: 3,
+  spawn_error: 4,
+  process_error: 5,
+  json_parse_error: 6,
+  timeout_error: 7,
+  write_error: 8,
+  aborted: 130,
+} as const;
+
+const COMPONENTS = [
+  'cpu',
+  'gpu',
+  'memory',
+  'motherboard',
+  'storage',
+  'network',
+  'battery',
+  'controller',
+  'psu',
+  'uptime',
+  'all',
+];
+const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+
+const HELP = `Usage: lynx-hwmonitor <command> [options]
+
+Commands:
+  setup     Check requirements and download the CLI into --dir
+  once      Print a single report
+  watch     Print live reports until interrupted
+  doctor    Print requirements diagnostics
+
+Options:
+  -d, --dir <path>          CLI storage directory (default: ~/.lynx-hwmonitor)
+  -i, --interval <ms>       Interval for watch (default: 1000)
+  -c, --components <list>   Comma-separated components, e.g. cpu,gpu,memory (default: all)
+  -f, --format <format>     table or json (default: table)
+  -l, --log-level <level>   silent, error, warn, info or debug (default: error, info for setup)
+  -b, --backend <name>      cli or linux (default: cli)
+      --dotnet <path>       dotnet executable or its folder
+  -t, --timeout <ms>        Timeout for once (default: 10000)
+  -h, --help                Show this help
+  -v, --version             Show the package version
+
+Exit codes:
+  0 success, 1 unexpected error, 2 invalid usage, 3 requirements not met,
+  4 spawn_error, 5 process_error, 6 json_parse_error, 7 timeout_error,
+  8 write_error, 130 interrupted with Ctrl+C (aborted)`;
+
+class UsageError extends Error {}
+
+function readPackageVersion(): string {
+  const packageJson = JSON.parse(fs.readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+  return packageJson.version;
+}
+
+function parsePositiveInteger(value: string, option: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) throw new UsageError(`--${option} must be a positive integer.`);
+  return parsed;
+}
+
+function parseCommandLine(argv: string[]): {command: string | undefined; options: CommandOptions; flags: string[]} {
+  const {values, positionals} = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      dir: {type: 'string', short: 'd'},
+      interval: {type: 'string', short: 'i', default: '1000'},
+      components: {type: 'string', short: 'c'},
+      format: {type: 'string', short: 'f', default: 'table'},
+      'log-level': {type: 'string', short: 'l'},
+      backend: {type: 'string', short: 'b', default: 'cli'},
+      dotnet: {type: 'string'},
+      timeout: {type: 'string', short: 't', default: '10000'},
+      help: {type: 'boolean', short: 'h'},
+      version: {type: 'boolean', short: 'v'},
+    },
+  });
+
+  const [command, ...extra] = positionals;
+  if (extra.length > 0) throw new UsageError(`Unexpected argument '${extra[0]}'.`);
+
+  const format = values.format as OutputFormat;
+  if (format !== 'table' && format !== 'json') throw new UsageError(`Unknown format '${format}'.`);
+
+  const logLevel = (values['log-level'] ?? (command === 'setup' ? 'info' : 'error')) as LogLevel;
+  if (!LOG_LEVELS.includes(logLevel)) throw new UsageError(`Unknown log level '${logLevel}'.`);
+
+  const backend = values.backend as CommandOptions['backend'];
+  if (backend !== 'cli' && backend !== 'linux') throw new UsageError(`Unknown backend '${backend}'.`);
+
+  let components: ComponentType[] | undefined;
+  if (values.components) {
+    components = values.components
+      .split(',')
+      .map(component => component.trim().toLowerCase())
+      .filter(Boolean);
+    const unknown = components.find(component => !COMPONENTS.includes(component));
+    if (unknown) throw new UsageError(`Unknown component '${unknown}'. Use: ${COMPONENTS.join(', ')}.`);
+  }
+
+  const flags = [values.help ? 'help' : '', values.version ? 'version' : ''].filter(Boolean);
+  return {
+    command,
+    flags,
+    options: {
+      dir: path.resolve(values.dir ?? path.join(os.homedir(), '.lynx-hwmonitor')),
+      interval: parsePositiveInteger(values.interval!, 'interval'),
+      components,
+      format,
+      logLevel,
+      backend,
+      dotnet: values.dotnet,
+      timeout: parsePositiveInteger(values.timeout!, 'timeout'),
+    },
+  };
+}
+
+function createMonitor(options: CommandOptions): HardwareMonitor {
+  return new HardwareMonitor(options.logLevel, {
+    backend: options.backend === 'linux' ? new LinuxBackend() : undefined,
+    dotnetPath: options.dotnet,
+  });
+}
+
+function formatValue(entry: SensorEntry): string {
+  const {Value, Unit} = entry.sensor;
+  if (Value === null) return '-';
+  const value = Number.isInteger(Value) ? Value.toString() : Value.toFixed(2).replace(/\.?0+$/, '');
+  return Unit ? `${value} ${Unit}` : value;
+}
+
+/**
+ * Renders a report as one block per hardware item, with aligned sensor rows.
+ * @param report The report to render.
+ */
+function formatReportTable(report: HardwareReport): string {
+  const entries = flattenReport(report);
+  const nameWidth = Math.max(4, ...entries.map(entry => entry.sensor.Name.length));
+  const valueWidth = Math.max(5, ...entries.map(entry => formatValue(entry).length));
+  const lines: string[] = [`Timestamp: ${report.Timestamp}`];
+  if (report.Uptime) lines.push(`Uptime:    ${report.Uptime.formatted}`);
+
+  let currentBlock = '';
+  for (const entry of entries) {
+    const block = `[${entry.category}] ${entry.path.join(' › ')}`;
+    if (block !== currentBlock) {
+      currentBlock = block;
+      lines.push('', block);
+    }
+    lines.push(
+      `  ${entry.sensor.Name.padEnd(nameWidth)}  ${formatValue(entry).padStart(valueWidth)}  ${entry.sensor.Type}`,
+    );
+  }
+  if (entries.length === 0) lines.push('', 'No sensors reported.');
+  return lines.join('\n');
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+async function listInstalledVersions(dir: string): Promise<string[]> {
+  try {
+    const dirents = await fs.promises.readdir(path.join(dir, 'LynxHardwareCLI'), {withFileTypes: true});
+    return dirents.filter(dirent => dirent.isDirectory()).map(dirent => dirent.name);
+  } catch {
+    return [];
+  }
+}
+
+function formatDoctorReport(report: RequirementsReport, installed: string[], dir: string): string {
+  const assetId =
+    report.osIdentifier && report.archIdentifier ? `${report.osIdentifier}-${report.archIdentifier}` : '-';
+  const lines = [
+    `Backend:       ${report.backend}`,
+    `Platform:      ${report.platform} ${report.arch} (CLI asset: ${assetId})`,
+  ];
+
+  if (report.dotnet) {
+    const {dotnet} = report;
+    lines.push(
+      dotnet.hostPath
+        ? `dotnet host:   ${dotnet.hostPath} (from ${dotnet.hostSource}, ${dotnet.hostArchitecture ?? 'unknown arch'})`
+        : 'dotnet host:   not found',
+    );
+    lines.push(`Required:      ${report.requiredRuntime} - ${dotnet.requiredRuntime?.version ?? 'missing'}`);
+    lines.push('Runtimes:');
+    for (const runtime of dotnet.runtimes) {
+      lines.push(`  ${runtime.name} ${runtime.version}${runtime.architecture ? ` (${runtime.architecture})` : ''}`);
+    }
+    if (dotnet.runtimes.length === 0) lines.push('  none');
+  }
+
+  if (report.cli) {
+    lines.push(`CLI:           ${report.cli.version} at ${report.cli.executablePath}`);
+  } else if (report.backend === 'cli') {
+    lines.push(`CLI:           ${installed.length > 0 ? installed.join(', ') : 'not installed'} in ${dir}`);
+  }
+
+  lines.push('');
+  if (report.ok) {
+    lines.push('All requirements are met.');
+  } else {
+    for (const failure of report.failures) {
+      lines.push(`✖ ${failure.code}: ${failure.message}`, `  ${failure.hint}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function runSetup(options: CommandOptions, signal: AbortSignal): Promise<number> {
+  const monitor = createMonitor(options);
+  if (process.stderr.isTTY && options.format === 'table') {
+    monitor.on('downloadProgress', (progress: DownloadProgress) => {
+      const percent = progress.totalBytes ? Math.floor((progress.receivedBytes / progress.totalBytes) * 100) : null;
+      const done = percent === null ? formatBytes(progress.receivedBytes) : `${percent}%`;
+      process.stderr.write(`\rDownloading ${progress.asset}: ${done} (${formatBytes(progress.bytesPerSecond)}/s)   `);
+      if (progress.done) process.stderr.write('\n');
+    });
+  }
+  await monitor.checkRequirements(options.dir, {signal});
+  const report = await monitor.diagnoseRequirements();
+  if (options.format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(
+      report.cli ? `CLI ${report.cli.version} is ready at ${report.cli.executablePath}` : 'Backend is ready.',
+    );
+  }
+  return EXIT_CODES.ok;
+}
+
+async function runOnce(options: CommandOptions, signal: AbortSignal): Promise<number> {
+  const monitor = createMonitor(options);
+  await monitor.checkRequirements(options.dir, {signal});
+  const report = await monitor.getDataOnce(options.components, options.timeout, {signal});
+  console.log(options.format === 'json' ? JSON.stringify(report, null, 2) : formatReportTable(report));
+  return EXIT_CODES.ok;
+}
+
+async function runWatch(options: CommandOptions, signal: AbortSignal): Promise<number> {
+  const monitor = createMonitor(options);
+  await monitor.checkRequirements(options.dir, {signal});
+  const interactive = process.stdout.isTTY && options.format === 'table';
+
+  return new Promise<number>(resolve => {
+    const finish = (code: number) => {
+      process.off('SIGINT', onSignal);
+      process.off('SIGTERM', onSignal);
+      monitor.stopTimed();
+      resolve(code);
+    };
+    const onSignal = () => finish(EXIT_CODES.ok);
+    process.on('SIGINT', onSignal);
+    process.on('SIGTERM', onSignal);
+
+    monitor.on('data', (report: HardwareReport) => {
+      if (options.format === 'json') {
+        console.log(JSON.stringify(report));
+      } else if (interactive) {
+        const header = `lynx-hwmonitor watch - every ${options.interval}ms - Ctrl+C to quit`;
+        // Move to the top-left and clear the screen so the view updates in place
+        process.stdout.write(`\x1b[H\x1b[2J${header}\n\n${formatReportTable(report)}\n`);
+      } else {
+        console.log(`${formatReportTable(report)}\n`);
+      }
+    });
+    monitor.on('error', (err: MonitorError) => {
+      console.error(`Error: ${err.message}`);
+      if (err.type === 'spawn_error') finish(EXIT_CODES.spawn_error);
+    });
+    monitor.on('restarting', () => console.error('Hardware monitor stopped responding, restarting...'));
+    monitor.on('gaveUp', () => finish(EXIT_CODES.process_error));
+
+    monitor.startTimed(options.interval, options.components, {supervise: true});
+  });
+}
+
+async function runDoctor(options: CommandOptions): Promise<number> {
+  const monitor = createMonitor(options);
+  const report = await monitor.diagnoseRequirements();
+  if (options.format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(formatDoctorReport(report, await listInstalledVersions(options.dir), options.dir));
+  }
+  return report.ok ? EXIT_CODES.ok : EXIT_CODES.requirements_error;
+}
+
+function exitCodeFor(error: unknown): number {
+  const type = (error as MonitorError)?.type;
+  return type && type in EXIT_CODES ? EXIT_CODES[type as keyof typeof EXIT_CODES] : EXIT_CODES.unexpected;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${HELP}`);
+    return EXIT_CODES.usage;
+  }
+
+  const {command, options, flags} = parsed;
+  if (flags.includes('version')) {
+    console.log(readPackageVersion());
+    return EXIT_CODES.ok;
+  }
+  if (flags.includes('help') || !command) {
+    console.log(HELP);
+    return command || flags.includes('help') ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+
+  const commands: Record<string, (options: CommandOptions, signal: AbortSignal) => Promise<number>> = {
+    setup: runSetup,
+    once: runOnce,
+    watch: runWatch,
+    doctor: runDoctor,
+  };
+  const run = commands[command];
+  if (!run) {
+    console.error(`Unknown command '${command}'.\n\n${HELP}`);
+    return EXIT_CODES.usage;
+  }
+
+  // Ctrl+C during setup or a one-shot read kills the CLI and removes partial downloads; watch handles it itself
+  const controller = new AbortController();
+  const onSignal = () => controller.abort();
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+  try {
+    return await run(options, controller.signal);
+  } catch (error) {
+    const monitorError = error as MonitorError;
+    console.error(`Error: ${monitorError.message}`);
+    if (monitorError.type === 'requirements_error') {
+      console.error("Run 'lynx-hwmonitor doctor' for details.");
+    }
+    return exitCodeFor(error);
+  } finally {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,222 @@
+import {spawn} from 'node:child_process';
+import path from 'node:path';
+import type {ComponentType, HardwareReport, LogLevel, MonitorError} from './index.js';
+import {backendComponents, MonitorBackend} from './backend.js';
+import type {TimedProcess} from './timed_session.js';
+import {JsonFramer} from './json_framer.js';
+import {createAbortError, throwIfAborted} from './abort.js';
+import DownloadCli, {DownloadOptions} from './cli_downloader.js';
+import {
+  buildCliRequirementsReport,
+  CliInstallInfo,
+  createRequirementsError,
+  diagnoseDotNet,
+  RequirementsReport,
+} from './requirements.js';
+import {MonitorLogger, resolveLogger, withLogContext} from './logger.js';
+
+/**
+ * Default backend: runs the LynxHardwareCLI executable downloaded by checkRequirements().
+ */
+export class CliBackend implements MonitorBackend {
+  public readonly name = 'cli';
+  public executablePath: string = '';
+  private readonly logger: MonitorLogger;
+  private readonly log: MonitorLogger;
+  private readonly downloadOptions: DownloadOptions;
+  private readonly dotnetPath?: string;
+  // Folder of an explicitly configured dotnet host, passed to the CLI so its app host uses the same one
+  private dotnetRoot: string | null = null;
+
+  /**
+   * @param logger The log level for console output, or a logger. Also used by the downloader and the .NET check.
+   * @param downloadOptions Options for downloading the CLI.
+   * @param dotnetPath Explicit dotnet executable, or the folder containing it. DOTNET_ROOT and PATH are used otherwise.
+   */
+  constructor(logger: LogLevel | MonitorLogger = 'info', downloadOptions: DownloadOptions = {}, dotnetPath?: string) {
+    this.logger = resolveLogger(logger);
+    this.log = withLogContext(this.logger, {component: 'cli'});
+    this.downloadOptions = downloadOptions;
+    this.dotnetPath = dotnetPath;
+  }
+
+  public get ready(): boolean {
+    return this.executablePath !== '';
+  }
+
+  /**
+   * Builds arguments for the CLI executable.
+   * @param mode - 'once' or 'timed'.
+   * @param intervalMs - Interval for timed mode.
+   * @param components - Specific components to monitor. 'uptime' is handled internally.
+   * @returns Array of string arguments.
+   */
+  private buildArgs(mode: 'once' | 'timed', intervalMs?: number, components?: ComponentType[]): string[] {
+    const args: string[] = ['--mode', mode];
+    const cliComponents = backendComponents(components);
+
+    if (mode === 'timed' && intervalMs !== undefined) {
+      args.push('--interval', intervalMs.toString());
+    }
+    if (cliComponents.length > 0) {
+      args.push('--components', cliComponents.join(','));
+    }
+    return args;
+  }
+
+  private get cliInfo(): CliInstallInfo | null {
+    if (!this.ready) return null;
+    const directory = path.dirname(this.executablePath);
+    return {version: path.basename(directory), directory, executablePath: this.executablePath};
+  }
+
+  private get spawnOptions() {
+    return this.dotnetRoot ? {env: {...process.env, DOTNET_ROOT: this.dotnetRoot}} : {};
+  }
+
+  /**
+   * Reports the platform, the dotnet host and runtimes found, and the CLI in use, without downloading anything.
+   * @returns The requirements report; `failures` lists what prevents the CLI from running.
+   */
+  public async diagnose(signal?: AbortSignal): Promise<RequirementsReport> {
+    const dotnet = await diagnoseDotNet(this.dotnetPath, this.logger, signal);
+    return buildCliRequirementsReport(dotnet, this.cliInfo);
+  }
+
+  /**
+   * Checks for .NET 10.0 runtime and downloads the CLI tool.
+   * @param targetDir - Directory to download the CLI tool.
+   * @param download - Download options for this call, merged over the ones given to the constructor.
+   *   Progress callbacks from both are called.
+   * @throws RequirementsError carrying the report if .NET 10.0 is not usable or download fails.
+   * @throws MonitorError with type 'aborted' (or 'timeout_error') if the download signal is aborted.
+   */
+  public async checkRequirements(targetDir: string, download: DownloadOptions = {}): Promise<void> {
+    const signal = download.signal ?? this.downloadOptions.signal;
+    const report = await this.diagnose(signal);
+    throwIfAborted(signal, 'CLI setup');
+    this.log.debug('Requirements report', {report});
+    if (!report.ok) {
+      for (const failure of report.failures) this.log.error(`${failure.message} ${failure.hint}`, {code: failure.code});
+      throw createRequirementsError(report);
+    }
+    this.dotnetRoot = report.dotnet?.hostSource === 'option' ? path.dirname(report.dotnet.hostPath!) : null;
+
+    const constructorProgress = this.downloadOptions.onProgress;
+    const callProgress = download.onProgress;
+    try {
+      this.executablePath = await DownloadCli(targetDir, this.logger, {
+        ...this.downloadOptions,
+        ...download,
+        signal,
+        onProgress: progress => {
+          constructorProgress?.(progress);
+          callProgress?.(progress);
+        },
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      report.failures.push({
+        code: 'cli_download_failed',
+        message: `Failed to install the CLI: ${(error as Error).message}`,
+        hint: 'Check network access to the release source, or configure a mirror or directory source.',
+      });
+      report.ok = false;
+      throw createRequirementsError(report, error);
+    }
+  }
+
+  public readOnce(
+    components: ComponentType[] | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<HardwareReport> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(createAbortError(signal, 'getDataOnce'));
+      const args = this.buildArgs('once', undefined, components);
+      let output = '';
+      let errorOutput = '';
+      let processKilled = false;
+      let report: HardwareReport | null = null;
+      let framingError: MonitorError | null = null;
+      const framer = new JsonFramer({onError: err => (framingError ??= err)});
+      const startedAt = Date.now();
+
+      const proc = spawn(this.executablePath, args, this.spawnOptions);
+
+      const timeoutHandle = setTimeout(() => {
+        processKilled = true;
+        proc.kill();
+        const err: MonitorError = new Error(
+          `Hardware monitor 'getDataOnce' timed out after ${timeoutMs}ms.`,
+        ) as MonitorError;
+        err.type = 'timeout_error';
+        reject(err);
+      }, timeoutMs);
+
+      const onAbort = () => {
+        processKilled = true;
+        clearTimeout(timeoutHandle);
+        proc.kill();
+        reject(createAbortError(signal!, 'getDataOnce'));
+      };
+      signal?.addEventListener('abort', onAbort, {once: true});
+      proc.on('close', () => signal?.removeEventListener('abort', onAbort));
+
+      proc.stdout.on('data', (data: Buffer) => {
+        output += data.toString();
+        // The first object is the report; banner lines before it are skipped
+        for (const frame of framer.push(data)) report ??= frame.value as HardwareReport;
+      });
+
+      proc.stderr.on('data', data => {
+        errorOutput += data.toString();
+      });
+
+      proc.on('error', err => {
+        if (processKilled) return;
+        clearTimeout(timeoutHandle);
+        const monitorError: MonitorError = new Error(
+          `Failed to start hardware monitor executable: ${err.message}`,
+        ) as MonitorError;
+        monitorError.type = 'spawn_error';
+        monitorError.rawError = err;
+        reject(monitorError);
+      });
+
+      proc.on('close', code => {
+        if (processKilled) return;
+        clearTimeout(timeoutHandle);
+        this.log.debug(`CLI exited with code ${code}`, {
+          version: this.cliInfo?.version,
+          pid: proc.pid,
+          durationMs: Date.now() - startedAt,
+        });
+
+        if (code !== 0) {
+          const err: MonitorError = new Error(
+            `Hardware monitor executable exited with code ${code}. Stderr: ${errorOutput.trim()}`,
+          ) as MonitorError;
+          err.type = 'process_error';
+          err.stderrData = errorOutput;
+          return reject(err);
+        }
+
+        for (const frame of framer.end()) report ??= frame.value as HardwareReport;
+        if (report) return resolve(report);
+
+        const err: MonitorError = new Error('Failed to parse JSON output from hardware monitor.') as MonitorError;
+        err.type = 'json_parse_error';
+        err.rawError = framingError;
+        err.stderrData = output;
+        reject(err);
+      });
+    });
+  }
+
+  public launchTimed(intervalMs: number, components: ComponentType[] | undefined): TimedProcess {
+    const proc = spawn(this.executablePath, this.buildArgs('timed', intervalMs, components), this.spawnOptions);
+    this.log.debug(`Started timed CLI every ${intervalMs}ms`, {version: this.cliInfo?.version, pid: proc.pid});
+    return proc;
+  }
+}
@@ -1,27 +1,23 @@
 import os from 'node:os';
+import crypto from 'node:crypto';
 import fsPromises from 'node:fs/promises';
 import originalFs from 'node:fs';
 import path from 'node:path';
 import {exec} from 'node:child_process';
+import {Readable, Transform} from 'node:stream';
+import {pipeline} from 'node:stream/promises';
+import type {ReadableStream} from 'node:stream/web';
+import {setTimeout as sleep} from 'node:timers/promises';
+import {fileURLToPath, pathToFileURL} from 'node:url';
 import {promisify} from 'node:util';
 import decompress from 'decompress';
+import {createAbortError, throwIfAborted} from './abort.js';
+import {InstallLock} from './install_lock.js';
+import type {LogLevel} from './index.js';
+import {MonitorLogger, resolveLogger, withLogContext} from './logger.js';
 
 const execAsync = promisify(exec);
 
-type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
-const logLevels: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
-
-const createLogger =
-  (logLevel: LogLevel) =>
-  (level: LogLevel, ...messages: any[]) => {
-    if (logLevels.indexOf(logLevel) >= logLevels.indexOf(level)) {
-      if (level === 'error') console.error(...messages);
-      else if (level === 'warn') console.warn(...messages);
-      else if (level !== 'silent') console.log(...messages);
-    }
-  };
-type Logger = ReturnType<typeof createLogger>;
-
 // Interfaces for GitHub API response
 type GitHubReleaseAsset = {
   name: string;
@@ -30,26 +26,182 @@ type GitHubReleaseAsset = {
 
 type GitHubRelease = {
   tag_name: string;
+  prerelease?: boolean;
+  draft?: boolean;
   assets: GitHubReleaseAsset[];
 };
 
+/** Release picked from a source, with the token to use for its asset downloads. */
+type ResolvedRelease = {
+  release: GitHubRelease;
+  token?: string;
+};
+
 /**
- * Attempts to terminate any running instances of the CLI tool process to unlock files on Windows/Unix.
+ * Where CLI releases are downloaded from.
+ * - `github`: The GitHub REST API, or a GitHub Enterprise API via `apiUrl` (e.g. 'https://ghe.example.com/api/v3').
+ * - `mirror`: A plain HTTP(S) server with a JSON index listing releases in the GitHub API format.
+ * - `directory`: A local directory containing the release zips and their checksum files.
+ */
+export type ReleaseSource =
+  | {
+      type: 'github';
+      /** Repository as 'owner/name'. Defaults to 'TheLynxHub/Lynx-HardwareCLI'. */
+      repository?: string;
+      /** API base URL. Defaults to 'https://api.github.com'. */
+      apiUrl?: string;
+      /** API token. Defaults to the GITHUB_TOKEN or GH_TOKEN environment variable. */
+      token?: string;
+    }
+  | {
+      type: 'mirror';
+      /** URL of the JSON index, or of a directory containing `index.json`. */
+      url: string;
+    }
+  | {
+      type: 'directory';
+      path: string;
+    };
+
+/** 'stable' uses the newest non-prerelease; 'prerelease' the newest release including prereleases. */
+export type ReleaseChannel = 'stable' | 'prerelease';
+
+/**
+ * What to do when a release publishes no SHA-256 checksum for the CLI asset.
+ * 'require' refuses to install it; 'warn' installs it and logs a warning. A checksum mismatch is always fatal.
+ */
+export type ChecksumPolicy = 'require' | 'warn';
+
+export type DownloadOptions = {
+  /** Handling of releases without a checksum asset. Defaults to 'warn'. */
+  checksumPolicy?: ChecksumPolicy;
+  /** Release source. Defaults to TheLynxHub/Lynx-HardwareCLI on github.com. */
+  source?: ReleaseSource;
+  /** Exact release tag to install, e.g. 'v1.4.0'. Only this version is used, also as a local fallback. */
+  version?: string;
+  /** Channel used when no version is pinned. Defaults to 'stable'. */
+  channel?: ReleaseChannel;
+  /** Receives progress of the CLI zip download. */
+  onProgress?: (progress: DownloadProgress) => void;
+  /** Retries for transient download failures (network errors, 408/429/5xx, truncated bodies). Defaults to 3. */
+  retries?: number;
+  /** Delay before the first retry; doubled for each further one. Defaults to 1000ms. */
+  retryDelayMs?: number;
+  /** How long to wait for another process installing into the same directory. Defaults to 300000ms. */
+  lockTimeoutMs?: number;
+  /** An install lock not refreshed for this long is taken over. Defaults to 60000ms. */
+  staleLockMs?: number;
+  /** Cancels the setup: stops requests and lock waits, and removes temporary files. Rejects with 'aborted'. */
+  signal?: AbortSignal;
+};
+
+export type DownloadProgress = {
+  /** Name of the file being downloaded. */
+  asset: string;
+  /** Bytes on disk so far, including bytes resumed from an earlier attempt. */
+  receivedBytes: number;
+  /** Size of the file, or null if the server did not announce it. */
+  totalBytes: number | null;
+  /** Average rate of the current attempt. */
+  bytesPerSecond: number;
+  /** Estimated seconds left, or null if unknown. */
+  etaSeconds: number | null;
+  /** Bytes taken over from a partial file instead of being downloaded again. */
+  resumedBytes: number;
+  done: boolean;
+};
+
+type TransferOptions = {
+  /** Where the partial download is kept between attempts and runs. Defaults to `<outputPath>.part`. */
+  partialPath?: string;
+  onProgress?: (progress: DownloadProgress) => void;
+  retries?: number;
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+};
+
+/** Stored next to a partial download so it is only resumed against the same file. */
+type PartialMeta = {
+  url: string;
+  etag: string | null;
+  lastModified: string | null;
+};
+
+const RETRYABLE_STATUS = [408, 425, 429, 500, 502, 503, 504];
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'UND_ERR_SOCKET'];
+const PROGRESS_INTERVAL_MS = 250;
+
+const DEFAULT_REPOSITORY = 'TheLynxHub/Lynx-HardwareCLI';
+
+/** Written to each installed version directory so installed files can be re-checked later. */
+type IntegrityManifest = {
+  asset: string;
+  /** Verified SHA-256 of the release zip, or null if the release published no checksum. */
+  sha256: string | null;
+  /** SHA-256 of every extracted file, keyed by its path relative to the version directory. */
+  files: Record<string, string>;
+};
+
+const INTEGRITY_MANIFEST = '.integrity.json';
+
+/** A download that failed verification. Never answered with a local fallback, as the source may be tampered with. */
+class IntegrityError extends Error {}
+
+/**
+ * Lists running processes whose executable lives inside a directory.
+ * @param dirPath The directory the executables must be in.
+ * @param executableName The name of the executable file.
+ * @returns Process ids, excluding the current process.
+ */
+async function findCliProcessesIn(dirPath: string, executableName: string): Promise<number[]> {
+  const platform = os.platform();
+  const normalize = (value: string) => (platform === 'win32' ? value.toLowerCase() : value);
+  const dirPrefix = normalize(path.resolve(dirPath) + path.sep);
+  const pids: number[] = [];
+
+  if (platform === 'win32') {
+    const query =
+      `Get-CimInstance Win32_Process -Filter "Name='${executableName}'" | ` +
+      'Select-Object ProcessId,ExecutablePath | ConvertTo-Json';
+    const {stdout} = await execAsync(`powershell -NoProfile -NonInteractive -Command "${query.replace(/"/g, '\\"')}"`);
+    if (!stdout.trim()) return pids;
+    const parsed = JSON.parse(stdout);
+    for (const item of Array.isArray(parsed) ? parsed : [parsed]) {
+      if (item?.ExecutablePath && normalize(item.ExecutablePath).startsWith(dirPrefix)) pids.push(item.ProcessId);
+    }
+  } else {
+    // The CLI is spawned by absolute path, so its first argument identifies the install directory
+    const {stdout} = await execAsync('ps -axo pid=,args=');
+    for (const line of stdout.split('\n')) {
+      const match = /^\s*(\d+)\s+(.*)$/.exec(line);
+      if (match && normalize(match[2]).startsWith(dirPrefix) && match[2].includes(executableName)) {
+        pids.push(Number(match[1]));
+      }
+    }
+  }
+  return pids.filter(pid => pid !== process.pid);
+}
+
+/**
+ * Terminates CLI processes started from a directory so its files can be removed on Windows/Unix.
+ * Processes running from other directories, e.g. another app's install, are left alone.
+ * @param dirPath The directory about to be removed.
  * @param cliName The base name of the CLI executable.
  * @param log The logger function.
  */
-async function killRunningCliProcesses(cliName: string, log: Logger): Promise<void> {
-  const platform = os.platform();
-  const exeName = platform === 'win32' ? `${cliName}.exe` : cliName;
+async function killCliProcessesIn(dirPath: string, cliName: string, log: MonitorLogger): Promise<void> {
+  const exeName = os.platform() === 'win32' ? `${cliName}.exe` : cliName;
   try {
-    if (platform === 'win32') {
-      await execAsync(`taskkill /F /IM "${exeName}"`);
-    } else {
-      await execAsync(`pkill -9 -f "${cliName}"`);
+    for (const pid of await findCliProcessesIn(dirPath, exeName)) {
+      try {
+        process.kill(pid, 'SIGKILL');
+        log.debug(`Terminated ${exeName} (pid ${pid}) running from ${dirPath}`, {pid});
+      } catch {
+        // Process already exited or couldn't be killed; ignore
+      }
     }
-    log('debug', `Terminated running instances of ${exeName}`);
-  } catch {
-    // Process was not running or couldn't be killed; ignore
+  } catch (error) {
+    log.debug(`Could not list running ${exeName} processes: ${(error as Error).message}`);
   }
 }
 
@@ -60,19 +212,18 @@ async function killRunningCliProcesses(cliName: string, log: Logger): Promise<vo
  * @param log Logger function.
  * @param maxRetries Maximum number of deletion attempts.
  */
-async function safeRemoveDir(dirPath: string, cliName: string, log: Logger, maxRetries = 3): Promise<void> {
+async function safeRemoveDir(dirPath: string, cliName: string, log: MonitorLogger, maxRetries = 3): Promise<void> {
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
       await fsPromises.rm(dirPath, {recursive: true, force: true});
       return;
     } catch (error: any) {
       if (['EPERM', 'EBUSY', 'EACCES'].includes(error.code)) {
-        log(
-          'warn',
+        log.warn(
           `Attempt ${attempt}/${maxRetries} to remove ${dirPath} failed (${error.code}).` +
             ' Stopping running CLI process...',
         );
-        await killRunningCliProcesses(cliName, log);
+        await killCliProcessesIn(dirPath, cliName, log);
         await new Promise(resolve => setTimeout(resolve, 200 * attempt));
       } else {
         throw error;
@@ -84,74 +235,400 @@ async function safeRemoveDir(dirPath: string, cliName: string, log: Logger, maxR
 }
 
 /**
- * Downloads a file from a given URL using Node.js native fetch API.
- * Automatically handles redirects and validates file size.
- * @param url The URL to download from.
- * @param outputPath The path to save the downloaded file.
- * @param log The logger function.
+ * Builds request headers, adding the token as a bearer Authorization header when given.
+ * @param accept The Accept header value.
+ * @param token Optional API token.
  */
-async function downloadFile(url: string, outputPath: string, log: Logger): Promise<void> {
+function requestHeaders(accept: string, token?: string): Record<string, string> {
   const headers: Record<string, string> = {
+    Accept: accept,
     'User-Agent': 'Node.js-Downloader',
-    Accept: 'application/octet-stream',
   };
-
-  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
   if (token) {
     headers.Authorization = `Bearer ${token}`;
   }
+  return headers;
+}
 
-  log('debug', `Fetching download stream from ${url}`);
-  const response = await fetch(url, {headers, redirect: 'follow'});
-  if (!response.ok) {
-    throw new Error(`Failed to download file: ${response.status} ${response.statusText} from ${url}`);
+/**
+ * Creates an error for a failed HTTP response, remembering the status for retry decisions.
+ * @param message The error message.
+ * @param status The HTTP status code.
+ */
+function httpError(message: string, status: number): Error {
+  return Object.assign(new Error(message), {status});
+}
+
+/**
+ * Whether a failed transfer is worth retrying: network errors, truncated bodies and 408/429/5xx responses.
+ * @param error The error thrown by the attempt.
+ */
+function isTransientError(error: any): boolean {
+  if (typeof error?.status === 'number') return RETRYABLE_STATUS.includes(error.status);
+  // fetch reports network failures and connections dropped mid-body as TypeError
+  return error?.retryable === true || error?.name === 'TypeError' || NETWORK_ERROR_CODES.includes(error?.code);
+}
+
+/**
+ * Runs a transfer, retrying transient failures with exponential backoff.
+ * @param task The transfer to run; called again for each attempt.
+ * @param label Description for log messages.
+ * @param log The logger function.
+ * @param retries Retries after the first attempt.
+ * @param retryDelayMs Delay before the first retry.
+ * @param signal Optional signal; an abort is never retried and cuts the backoff short.
+ */
+async function withRetries<T>(
+  task: () => Promise<T>,
+  label: string,
+  log: MonitorLogger,
+  retries: number = 3,
+  retryDelayMs: number = 1000,
+  signal?: AbortSignal,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !isTransientError(error)) throw error;
+      const delay = retryDelayMs * 2 ** attempt * (1 + Math.random() * 0.2);
+      log.warn(`${label} failed (${(error as Error).message}). Retrying in ${Math.round(delay)}ms...`);
+      await sleep(delay, undefined, {signal});
+    }
   }
+}
 
-  const arrayBuffer = await response.arrayBuffer();
-  const buffer = Buffer.from(arrayBuffer);
+/**
+ * Streams one download attempt into the partial file, resuming it with an HTTP Range request when possible.
+ * @param url The URL to download from.
+ * @param partialPath The partial file to write to.
+ * @param asset Name reported in progress events.
+ * @param log The logger function.
+ * @param token Optional token sent as Authorization header.
+ * @param onProgress Optional progress callback.
+ * @param signal Optional signal that cancels the request and the transfer.
+ */
+async function downloadAttempt(
+  url: string,
+  partialPath: string,
+  asset: string,
+  log: MonitorLogger,
+  token?: string,
+  onProgress?: (progress: DownloadProgress) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const metaPath = `${partialPath}.json`;
+  let offset = 0;
+  let meta: PartialMeta | null = null;
+  try {
+    meta = JSON.parse(await fsPromises.readFile(metaPath, 'utf8'));
+    offset = meta?.url === url ? (await fsPromises.stat(partialPath)).size : 0;
+  } catch {
+    offset = 0;
+  }
+
+  const headers = requestHeaders('application/octet-stream', token);
+  if (offset > 0) {
+    headers.Range = `bytes=${offset}-`;
+    // Only resume if the file on the server is still the one the partial data came from
+    const validator = meta?.etag ?? meta?.lastModified;
+    if (validator) headers['If-Range'] = validator;
+  }
 
-  const contentLengthHeader = response.headers.get('content-length');
-  if (contentLengthHeader) {
-    const expectedBytes = parseInt(contentLengthHeader, 10);
-    if (!isNaN(expectedBytes) && buffer.length !== expectedBytes) {
-      throw new Error(`Download truncated: expected ${expectedBytes} bytes, but received ${buffer.length} bytes.`);
+  log.debug(`Fetching download stream from ${url}${offset > 0 ? ` (resuming at ${offset} bytes)` : ''}`);
+  const response = await fetch(url, {headers, redirect: 'follow', signal});
+  if (response.status === 416) {
+    // The partial file is no longer valid for this resource; start over on the next attempt
+    await fsPromises.rm(partialPath, {force: true});
+    throw Object.assign(new Error('Server rejected the resume range.'), {retryable: true});
+  }
+  if (!response.ok || !response.body) {
+    throw httpError(`Failed to download file: ${response.status} ${response.statusText} from ${url}`, response.status);
+  }
+
+  let totalBytes: number | null = null;
+  const contentLength = parseInt(response.headers.get('content-length') ?? '', 10);
+  if (response.status === 206) {
+    const range = /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(response.headers.get('content-range') ?? '');
+    if (!range || Number(range[1]) !== offset) {
+      await fsPromises.rm(partialPath, {force: true});
+      throw Object.assign(new Error('Server resumed at an unexpected offset.'), {retryable: true});
     }
+    totalBytes = range[2] === '*' ? null : Number(range[2]);
+  } else {
+    // A full response replaces whatever was downloaded before
+    offset = 0;
+    totalBytes = isNaN(contentLength) ? null : contentLength;
   }
 
-  await fsPromises.writeFile(outputPath, buffer);
+  const newMeta: PartialMeta = {
+    url,
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  };
+  await fsPromises.writeFile(metaPath, JSON.stringify(newMeta));
+
+  const startedAt = Date.now();
+  let receivedBytes = offset;
+  let lastReport = 0;
+  const report = (done: boolean) => {
+    if (!onProgress) return;
+    const elapsedSeconds = Math.max((Date.now() - startedAt) / 1000, 0.001);
+    const bytesPerSecond = (receivedBytes - offset) / elapsedSeconds;
+    const remaining = totalBytes === null ? null : Math.max(totalBytes - receivedBytes, 0);
+    onProgress({
+      asset,
+      receivedBytes,
+      totalBytes,
+      bytesPerSecond,
+      etaSeconds: remaining === null ? null : bytesPerSecond > 0 ? remaining / bytesPerSecond : null,
+      resumedBytes: offset,
+      done,
+    });
+  };
+
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      receivedBytes += chunk.length;
+      const now = Date.now();
+      if (now - lastReport >= PROGRESS_INTERVAL_MS) {
+        lastReport = now;
+        report(false);
+      }
+      callback(null, chunk);
+    },
+  });
+
+  await pipeline(
+    Readable.fromWeb(response.body as ReadableStream<Uint8Array>),
+    counter,
+    originalFs.createWriteStream(partialPath, {flags: offset > 0 ? 'a' : 'w'}),
+    {signal},
+  );
+
+  if (totalBytes !== null && receivedBytes !== totalBytes) {
+    throw Object.assign(
+      new Error(`Download truncated: expected ${totalBytes} bytes, but received ${receivedBytes} bytes.`),
+      {retryable: true},
+    );
+  }
+  report(true);
+}
+
+/**
+ * Downloads a file from a given URL using Node.js native fetch API.
+ * Streams to disk, follows redirects, validates the size, resumes a partial file with HTTP Range requests and
+ * retries transient failures with backoff. `file:` URLs are copied from disk.
+ * @param url The URL to download from.
+ * @param outputPath The path to save the downloaded file.
+ * @param log The logger function.
+ * @param token Optional token sent as Authorization header.
+ * @param options Partial file location, progress callback, retry settings and abort signal.
+ */
+async function downloadFile(
+  url: string,
+  outputPath: string,
+  log: MonitorLogger,
+  token?: string,
+  options: TransferOptions = {},
+): Promise<void> {
+  const asset = path.basename(outputPath);
+  if (url.startsWith('file:')) {
+    log.debug(`Copying ${url}`);
+    await fsPromises.copyFile(fileURLToPath(url), outputPath);
+    const {size} = await fsPromises.stat(outputPath);
+    options.onProgress?.({
+      asset,
+      receivedBytes: size,
+      totalBytes: size,
+      bytesPerSecond: 0,
+      etaSeconds: 0,
+      resumedBytes: 0,
+      done: true,
+    });
+    return;
+  }
+
+  const partialPath = options.partialPath ?? `${outputPath}.part`;
+  await fsPromises.mkdir(path.dirname(partialPath), {recursive: true, mode: 0o700});
+  await withRetries(
+    () => downloadAttempt(url, partialPath, asset, log, token, options.onProgress, options.signal),
+    `Download of ${asset}`,
+    log,
+    options.retries,
+    options.retryDelayMs,
+    options.signal,
+  );
+
+  try {
+    await fsPromises.rename(partialPath, outputPath);
+  } catch {
+    // Fallback to copy if the partial file lives on another device
+    await fsPromises.copyFile(partialPath, outputPath);
+    await fsPromises.rm(partialPath, {force: true});
+  }
+  await fsPromises.rm(`${partialPath}.json`, {force: true});
 }
 
 /**
  * Fetches JSON data from a URL using Node.js native fetch API.
  * @param url The URL to fetch JSON from.
+ * @param token Optional token sent as Authorization header.
+ * @param signal Optional signal that cancels the request.
  * @returns A promise that resolves with the parsed JSON data.
  */
-async function fetchJson<T>(url: string): Promise<T> {
-  const headers: Record<string, string> = {
-    Accept: 'application/vnd.github.v3+json',
-    'User-Agent': 'Node.js-Downloader',
-  };
+async function fetchJson<T>(url: string, token?: string, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, {
+    headers: requestHeaders('application/vnd.github.v3+json', token),
+    redirect: 'follow',
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JSON: ${response.status} ${response.statusText} from ${url}`);
+  }
 
-  const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
-  if (token) {
-    headers.Authorization = `Bearer ${token}`;
+  return (await response.json()) as T;
+}
+
+/**
+ * Fetches a small text file, such as a checksum asset. `file:` URLs are read from disk.
+ * @param url The URL to fetch.
+ * @param token Optional token sent as Authorization header.
+ * @param signal Optional signal that cancels the request.
+ * @returns A promise that resolves with the response body.
+ */
+async function fetchText(url: string, token?: string, signal?: AbortSignal): Promise<string> {
+  if (url.startsWith('file:')) {
+    return fsPromises.readFile(fileURLToPath(url), {encoding: 'utf8', signal});
   }
 
-  const response = await fetch(url, {headers, redirect: 'follow'});
+  const response = await fetch(url, {
+    headers: requestHeaders('application/octet-stream', token),
+    redirect: 'follow',
+    signal,
+  });
   if (!response.ok) {
-    throw new Error(`Failed to fetch JSON: ${response.status} ${response.statusText} from ${url}`);
+    throw httpError(`Failed to fetch ${url}: ${response.status} ${response.statusText}`, response.status);
   }
 
-  return (await response.json()) as T;
+  return response.text();
 }
 
 /**
- * Verifies that a directory contains all required files for running the CLI tool (.exe, .runtimeconfig.json, and .dll).
+ * Computes the SHA-256 of a file.
+ * @param filePath The file to hash.
+ * @returns The lowercase hex digest.
+ */
+async function hashFile(filePath: string): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of originalFs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Looks up the published SHA-256 of a release asset, from either `<asset>.sha256` or a `SHA256SUMS` file.
+ * @param release The release containing the asset.
+ * @param asset The asset to find the checksum for.
+ * @param log The logger function.
+ * @param token Optional token sent as Authorization header.
+ * @param signal Optional signal that cancels the requests.
+ * @returns The lowercase hex checksum, or null if the release publishes none for the asset.
+ */
+async function fetchAssetChecksum(
+  release: GitHubRelease,
+  asset: GitHubReleaseAsset,
+  log: MonitorLogger,
+  token?: string,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  const findAsset = (name: string) => release.assets.find(item => item.name.toLowerCase() === name.toLowerCase());
+  const assetName = asset.name.toLowerCase();
+
+  const sidecar = findAsset(`${asset.name}.sha256`);
+  if (sidecar) {
+    log.debug(`Found checksum asset: ${sidecar.name}`);
+    const match = /\b[a-f0-9]{64}\b/i.exec(await fetchText(sidecar.browser_download_url, token, signal));
+    if (!match) throw new Error(`Checksum asset ${sidecar.name} does not contain a SHA-256 hash.`);
+    return match[0].toLowerCase();
+  }
+
+  const sums = findAsset('SHA256SUMS') ?? findAsset('SHA256SUMS.txt');
+  if (sums) {
+    log.debug(`Found checksum asset: ${sums.name}`);
+    // Lines look like "<hash>  <file>" or "<hash> *<file>" (binary mode)
+    for (const line of (await fetchText(sums.browser_download_url, token, signal)).split(/\r?\n/)) {
+      const match = /^([a-f0-9]{64})\s+\*?(.+)$/i.exec(line.trim());
+      if (match && path.basename(match[2].trim()).toLowerCase() === assetName) return match[1].toLowerCase();
+    }
+    throw new Error(`${sums.name} does not list ${asset.name}.`);
+  }
+
+  return null;
+}
+
+/**
+ * Hashes every file in an extracted version directory and writes the integrity manifest.
+ * @param dirPath The extracted version directory.
+ * @param asset Name of the zip the files came from.
+ * @param sha256 Verified checksum of the zip, or null if none was published.
+ */
+async function writeIntegrityManifest(dirPath: string, asset: string, sha256: string | null): Promise<void> {
+  const files: Record<string, string> = {};
+  const entries = await fsPromises.readdir(dirPath, {recursive: true, withFileTypes: true});
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const filePath = path.join(entry.parentPath, entry.name);
+    const relativePath = path.relative(dirPath, filePath).split(path.sep).join('/');
+    if (relativePath === INTEGRITY_MANIFEST) continue;
+    files[relativePath] = await hashFile(filePath);
+  }
+
+  const manifest: IntegrityManifest = {asset, sha256, files};
+  await fsPromises.writeFile(path.join(dirPath, INTEGRITY_MANIFEST), JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Re-checks installed files against the integrity manifest of a version directory.
+ * @param dirPath The version directory.
+ * @param policy With 'require', directories without a manifest or without a verified zip checksum are rejected.
+ * @throws Error if a file is missing or modified, or the manifest does not satisfy the policy.
+ */
+async function verifyIntegrity(dirPath: string, policy: ChecksumPolicy): Promise<void> {
+  let manifest: IntegrityManifest;
+  try {
+    manifest = JSON.parse(await fsPromises.readFile(path.join(dirPath, INTEGRITY_MANIFEST), 'utf8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT' && policy === 'warn') return;
+    throw new Error(`Missing or unreadable integrity manifest in ${dirPath}.`, {cause: error});
+  }
+
+  if (policy === 'require' && !manifest.sha256) {
+    throw new Error(`${dirPath} was installed without a verified checksum.`);
+  }
+  for (const [relativePath, expected] of Object.entries(manifest.files ?? {})) {
+    const actual = await hashFile(path.join(dirPath, ...relativePath.split('/')));
+    if (actual !== expected) {
+      throw new Error(`Installed file ${relativePath} in ${dirPath} does not match its recorded checksum.`);
+    }
+  }
+}
+
+/**
+ * Verifies that a directory contains all required files for running the CLI tool (.exe, .runtimeconfig.json, and .dll)
+ * and that they match the recorded integrity manifest.
  * @param dirPath The directory path to check.
  * @param cliName The base name of the CLI tool.
  * @param executableName The name of the executable file.
+ * @param policy Checksum policy applied to the integrity manifest.
  */
-async function verifyCliFiles(dirPath: string, cliName: string, executableName: string): Promise<void> {
+async function verifyCliFiles(
+  dirPath: string,
+  cliName: string,
+  executableName: string,
+  policy: ChecksumPolicy,
+): Promise<void> {
   const exePath = path.join(dirPath, executableName);
   const runtimeConfigPath = path.join(dirPath, `${cliName}.runtimeconfig.json`);
   const dllPath = path.join(dirPath, `${cliName}.dll`);
@@ -159,6 +636,28 @@ async function verifyCliFiles(dirPath: string, cliName: string, executableName:
   await fsPromises.access(exePath, originalFs.constants.F_OK);
   await fsPromises.access(runtimeConfigPath, originalFs.constants.F_OK);
   await fsPromises.access(dllPath, originalFs.constants.F_OK);
+  await verifyIntegrity(dirPath, policy);
+}
+
+/**
+ * Removes partial downloads of CLI assets left over from other versions once a download has completed.
+ * The directory belongs to one targetDir and is only used while holding its install lock, so no other
+ * download can be in progress there; files that are not CLI partials are left alone.
+ * @param partialDir Directory holding partial downloads.
+ * @param cliName The base name of the CLI tool.
+ * @param log The logger function.
+ */
+async function removeStalePartials(partialDir: string, cliName: string, log: MonitorLogger): Promise<void> {
+  try {
+    const entries = await fsPromises.readdir(partialDir);
+    for (const entry of entries) {
+      if (!entry.startsWith(`${cliName}-`) || !/\.zip\.part(\.json)?$/.test(entry)) continue;
+      log.debug(`Removing stale partial download: ${entry}`);
+      await fsPromises.rm(path.join(partialDir, entry), {force: true});
+    }
+  } catch {
+    // Nothing to clean up
+  }
 }
 
 /**
@@ -172,7 +671,7 @@ async function cleanupOldVersions(
   baseDir: string,
   currentVersion: string,
   cliName: string,
-  log: Logger,
+  log: MonitorLogger,
 ): Promise<void> {
   try {
     const entries = await fsPromises.readdir(baseDir, {withFileTypes: true});
@@ -180,38 +679,161 @@ async function cleanupOldVersions(
 
     for (const dirent of oldVersionDirs) {
       const oldVersionPath = path.join(baseDir, dirent.name);
-      log('debug', `Removing old version directory: ${oldVersionPath}`);
+      log.debug(`Removing old version directory: ${oldVersionPath}`);
       await safeRemoveDir(oldVersionPath, cliName, log);
     }
   } catch (error) {
-    log('warn', `Could not clean up old versions in ${baseDir}:`, (error as Error).message);
+    log.warn(`Could not clean up old versions in ${baseDir}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Builds the zip name of a CLI release asset, e.g. 'LynxHardwareCLI-linux-x64-v1.4.0.zip'.
+ * @param cliName The base name of the CLI tool.
+ * @param osIdentifier 'win', 'osx' or 'linux'.
+ * @param archIdentifier 'x64' or 'arm64'.
+ * @param versionString The release tag.
+ */
+function expectedAssetName(cliName: string, osIdentifier: string, archIdentifier: string, versionString: string) {
+  return `${cliName}-${osIdentifier}-${archIdentifier}-${versionString}.zip`;
+}
+
+/**
+ * Treats tags with a pre-release suffix ('v1.4.0-beta.1') as prereleases when a source has no explicit flag.
+ * @param release The release to check.
+ */
+function isPrerelease(release: GitHubRelease): boolean {
+  return release.prerelease ?? /^v?\d+(\.\d+)*-/.test(release.tag_name);
+}
+
+/**
+ * Picks the pinned version, or the newest release of the channel, from a list of releases.
+ * @param releases Releases offered by a source.
+ * @param options Version and channel options.
+ * @param sourceLabel Source description for error messages.
+ */
+function pickRelease(releases: GitHubRelease[], options: DownloadOptions, sourceLabel: string): GitHubRelease {
+  if (options.version) {
+    const pinned = releases.find(release => release.tag_name === options.version);
+    if (!pinned) throw new Error(`Release ${options.version} not found in ${sourceLabel}.`);
+    return pinned;
+  }
+
+  const candidates = releases
+    .filter(release => !release.draft && (options.channel === 'prerelease' || !isPrerelease(release)))
+    .sort((a, b) => b.tag_name.localeCompare(a.tag_name, undefined, {numeric: true, sensitivity: 'base'}));
+  if (candidates.length === 0) throw new Error(`No ${options.channel ?? 'stable'} release found in ${sourceLabel}.`);
+  return candidates[0];
+}
+
+/**
+ * Describes a release source for log messages.
+ * @param source The release source.
+ */
+function describeSource(source: ReleaseSource): string {
+  if (source.type === 'mirror') return source.url;
+  if (source.type === 'directory') return source.path;
+  return `${source.repository ?? DEFAULT_REPOSITORY} (${source.apiUrl ?? 'https://api.github.com'})`;
+}
+
+/**
+ * Resolves the release to install from the configured source.
+ * @param options Source, version and channel options.
+ * @param assetPrefix Asset name prefix for this platform, e.g. 'LynxHardwareCLI-linux-x64-'.
+ * @param log The logger function.
+ * @returns The release with asset download URLs, and the token to use for them.
+ */
+async function resolveRelease(
+  options: DownloadOptions,
+  assetPrefix: string,
+  log: MonitorLogger,
+): Promise<ResolvedRelease> {
+  const source: ReleaseSource = options.source ?? {type: 'github'};
+  const sourceLabel = describeSource(source);
+
+  if (source.type === 'github') {
+    const apiUrl = (source.apiUrl ?? 'https://api.github.com').replace(/\/+$/, '');
+    const repoUrl = `${apiUrl}/repos/${source.repository ?? DEFAULT_REPOSITORY}`;
+    const token = source.token ?? (process.env.GITHUB_TOKEN || process.env.GH_TOKEN);
+
+    if (options.version) {
+      const releaseUrl = `${repoUrl}/releases/tags/${encodeURIComponent(options.version)}`;
+      log.debug(`Fetching release info from: ${releaseUrl}`);
+      return {release: await fetchJson<GitHubRelease>(releaseUrl, token, options.signal), token};
+    }
+    if (options.channel === 'prerelease') {
+      const releasesUrl = `${repoUrl}/releases?per_page=30`;
+      log.debug(`Fetching release list from: ${releasesUrl}`);
+      const releases = await fetchJson<GitHubRelease[]>(releasesUrl, token, options.signal);
+      // The API lists releases newest first; keep that order instead of sorting tags
+      const newest = releases.find(release => !release.draft);
+      if (!newest) throw new Error(`No releases found in ${sourceLabel}.`);
+      return {release: newest, token};
+    }
+    const releaseUrl = `${repoUrl}/releases/latest`;
+    log.debug(`Fetching latest release info from: ${releaseUrl}`);
+    return {release: await fetchJson<GitHubRelease>(releaseUrl, token, options.signal), token};
   }
+
+  if (source.type === 'mirror') {
+    const indexUrl = source.url.endsWith('.json') ? source.url : `${source.url.replace(/\/+$/, '')}/index.json`;
+    log.debug(`Fetching mirror index from: ${indexUrl}`);
+    const index = await fetchJson<GitHubRelease[] | {releases: GitHubRelease[]}>(indexUrl, undefined, options.signal);
+    const releases = Array.isArray(index) ? index : index.releases;
+    if (!Array.isArray(releases)) throw new Error(`Mirror index ${indexUrl} has no releases list.`);
+
+    const release = pickRelease(releases, options, sourceLabel);
+    // Asset URLs may be relative to the index; without one, assets live in a folder named after the tag
+    const assets = (release.assets ?? []).map(asset => ({
+      name: asset.name,
+      browser_download_url: new URL(
+        asset.browser_download_url ?? `${encodeURIComponent(release.tag_name)}/${encodeURIComponent(asset.name)}`,
+        indexUrl,
+      ).toString(),
+    }));
+    return {release: {...release, assets}};
+  }
+
+  const dirPath = path.resolve(source.path);
+  const fileNames = (await fsPromises.readdir(dirPath, {withFileTypes: true}))
+    .filter(dirent => dirent.isFile())
+    .map(dirent => dirent.name);
+  const prefix = assetPrefix.toLowerCase();
+  const tags = fileNames
+    .filter(name => name.toLowerCase().startsWith(prefix) && name.toLowerCase().endsWith('.zip'))
+    .map(name => name.slice(prefix.length, -'.zip'.length));
+  const releases: GitHubRelease[] = tags.map(tag => ({
+    tag_name: tag,
+    // Every file is offered so checksum files next to the zips are found
+    assets: fileNames.map(name => ({name, browser_download_url: pathToFileURL(path.join(dirPath, name)).toString()})),
+  }));
+  return {release: pickRelease(releases, options, sourceLabel)};
 }
 
 /**
- * Downloads and extracts a CLI tool from the latest GitHub release.
- * @param repoOwner The owner of the GitHub repository.
- * @param repoName The name of the GitHub repository.
+ * Downloads and extracts a CLI tool from the configured release source.
  * @param cliName The base name of the CLI tool.
  * @param baseDestinationDir The base directory for the CLI.
  * @param log The logger function.
+ * @param options Release source, version, channel and checksum policy.
  * @returns A promise that resolves to the path of the CLI tool's directory.
  */
 async function downloadAndExtractLatestCli(
-  repoOwner: string,
-  repoName: string,
   cliName: string,
   baseDestinationDir: string,
-  log: Logger,
+  log: MonitorLogger,
+  options: DownloadOptions,
 ): Promise<string> {
-  log('info', `Starting setup for ${cliName} from ${repoOwner}/${repoName}...`);
+  const checksumPolicy = options.checksumPolicy ?? 'warn';
+  const sourceLabel = describeSource(options.source ?? {type: 'github'});
+  log.info(`Starting setup for ${cliName} from ${sourceLabel}...`);
 
   const platform = os.platform();
   const arch = os.arch();
   const osIdentifier = platform === 'win32' ? 'win' : platform === 'darwin' ? 'osx' : 'linux';
   const archIdentifier = arch === 'x64' ? 'x64' : 'arm64';
   const executableName = platform === 'win32' ? `${cliName}.exe` : cliName;
-  log('debug', `Detected system: ${osIdentifier}-${archIdentifier}`);
+  log.debug(`Detected system: ${osIdentifier}-${archIdentifier}`);
 
   if (!['win', 'osx', 'linux'].includes(osIdentifier)) {
     throw new Error(`Unsupported platform: ${platform}`);
@@ -226,13 +848,14 @@ async function downloadAndExtractLatestCli(
       const validVersionDirs: string[] = [];
 
       for (const dirent of dirents) {
-        if (dirent.isDirectory()) {
+        // A pinned version never falls back to a different one
+        if (dirent.isDirectory() && (!options.version || dirent.name === options.version)) {
           const candidatePath = path.join(baseDestinationDir, dirent.name);
           try {
-            await verifyCliFiles(candidatePath, cliName, executableName);
+            await verifyCliFiles(candidatePath, cliName, executableName, checksumPolicy);
             validVersionDirs.push(dirent.name);
           } catch {
-            log('warn', `Removing invalid/incomplete local version directory: ${candidatePath}`);
+            log.warn(`Removing invalid/incomplete local version directory: ${candidatePath}`);
             await safeRemoveDir(candidatePath, cliName, log).catch(() => {});
           }
         }
@@ -243,18 +866,20 @@ async function downloadAndExtractLatestCli(
       if (validVersionDirs.length > 0) {
         const latestLocalVersion = validVersionDirs[0];
         const fallbackPath = path.join(baseDestinationDir, latestLocalVersion);
-        log('info', `Found existing local version. Using latest available '${latestLocalVersion}' as a fallback.`);
+        log.info(`Found existing local version. Using latest available '${latestLocalVersion}' as a fallback.`, {
+          version: latestLocalVersion,
+        });
         return fallbackPath;
       }
 
-      log('error', `No local versions of ${cliName} found in ${baseDestinationDir}.`);
+      log.error(`No local versions of ${cliName} found in ${baseDestinationDir}.`);
       const reason = downloadErr ? ` (Download error: ${downloadErr.message})` : '';
       throw new Error(`No local versions of ${cliName} are available.${reason}`);
     } catch (fsError: any) {
       if (fsError.code === 'ENOENT') {
-        log('error', `Destination directory ${baseDestinationDir} does not exist.`);
+        log.error(`Destination directory ${baseDestinationDir} does not exist.`);
       } else {
-        log('error', 'An unexpected error occurred while finding a local fallback:', fsError.message);
+        log.error(`An unexpected error occurred while finding a local fallback: ${fsError.message}`);
       }
       const reason = downloadErr ? ` (Download error: ${downloadErr.message})` : '';
       throw new Error(`No local versions of ${cliName} are available.${reason}`, {cause: fsError});
@@ -262,54 +887,100 @@ async function downloadAndExtractLatestCli(
   };
 
   try {
-    const releaseUrl = `https://api.github.com/repos/${repoOwner}/${repoName}/releases/latest`;
-    log('debug', `Fetching latest release info from: ${releaseUrl}`);
-    const releaseData = await fetchJson<GitHubRelease>(releaseUrl);
-    log('debug', `Successfully fetched release: ${releaseData.tag_name}`);
+    const assetPrefix = expectedAssetName(cliName, osIdentifier, archIdentifier, '').slice(0, -'.zip'.length);
+    const {release: releaseData, token} = await resolveRelease(options, assetPrefix, log);
+    log.debug(`Successfully fetched release: ${releaseData.tag_name}`, {version: releaseData.tag_name});
 
     if (!releaseData?.assets?.length) {
-      throw new Error(`No assets found in the latest release for ${repoOwner}/${repoName}.`);
+      throw new Error(`No assets found in release ${releaseData?.tag_name} from ${sourceLabel}.`);
     }
 
     const versionString = releaseData.tag_name;
     const finalExtractionPath = path.resolve(baseDestinationDir, versionString);
 
     try {
-      await verifyCliFiles(finalExtractionPath, cliName, executableName);
-      log('info', `Latest version '${versionString}' already exists and is valid. Skipping download.`);
+      await verifyCliFiles(finalExtractionPath, cliName, executableName, checksumPolicy);
+      log.info(`Latest version '${versionString}' already exists and is valid. Skipping download.`, {
+        version: versionString,
+      });
       await cleanupOldVersions(baseDestinationDir, versionString, cliName, log);
       return finalExtractionPath;
     } catch {
-      log('info', `New version '${versionString}' not found or incomplete locally. Proceeding with download.`);
+      log.info(`New version '${versionString}' not found or incomplete locally. Proceeding with download.`, {
+        version: versionString,
+      });
       // Clean up incomplete directory if present
       await safeRemoveDir(finalExtractionPath, cliName, log).catch(() => {});
     }
 
-    const expectedAssetName = `${cliName}-${osIdentifier}-${archIdentifier}-${versionString}.zip`;
-    const targetAsset = releaseData.assets.find(asset => asset.name.toLowerCase() === expectedAssetName.toLowerCase());
+    const assetName = expectedAssetName(cliName, osIdentifier, archIdentifier, versionString);
+    const targetAsset = releaseData.assets.find(asset => asset.name.toLowerCase() === assetName.toLowerCase());
 
     if (!targetAsset) {
-      throw new Error(`Could not find asset "${expectedAssetName}" in release ${versionString}.`);
+      throw new Error(`Could not find asset "${assetName}" in release ${versionString}.`);
     }
 
-    log('debug', `Found asset: ${targetAsset.name}`);
+    log.debug(`Found asset: ${targetAsset.name}`);
 
     const tempDownloadDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), `${cliName}-download-`));
     const zipFilePath = path.join(tempDownloadDir, targetAsset.name);
     const tempExtractionPath = path.join(tempDownloadDir, 'extracted');
+    // Kept outside the per-run temp directory so an interrupted download can be resumed by the next run.
+    // It lives in targetDir, under the install lock, so other users and installs cannot plant or remove partials
+    const partialDir = path.join(path.dirname(baseDestinationDir), `${cliName}.partial`);
 
     try {
-      log('debug', `Downloading ${targetAsset.name} to ${zipFilePath}...`);
-      await downloadFile(targetAsset.browser_download_url, zipFilePath, log);
+      log.debug(`Downloading ${targetAsset.name} to ${zipFilePath}...`, {version: versionString});
+      const downloadStartedAt = Date.now();
+      await downloadFile(targetAsset.browser_download_url, zipFilePath, log, token, {
+        partialPath: path.join(partialDir, `${targetAsset.name}.part`),
+        onProgress: options.onProgress,
+        retries: options.retries,
+        retryDelayMs: options.retryDelayMs,
+        signal: options.signal,
+      });
+      log.debug(`Downloaded ${targetAsset.name}`, {version: versionString, durationMs: Date.now() - downloadStartedAt});
+      await removeStalePartials(partialDir, cliName, log);
+
+      // Verify the zip before anything from it is extracted or executed
+      const expectedHash = await withRetries(
+        () => fetchAssetChecksum(releaseData, targetAsset, log, token, options.signal),
+        'Checksum download',
+        log,
+        options.retries,
+        options.retryDelayMs,
+        options.signal,
+      );
+      const actualHash = await hashFile(zipFilePath);
+      if (expectedHash) {
+        if (actualHash !== expectedHash) {
+          throw new IntegrityError(
+            `Checksum mismatch for ${targetAsset.name}: expected ${expectedHash}, got ${actualHash}.` +
+              ' Refusing to install.',
+          );
+        }
+        log.debug(`Verified SHA-256 of ${targetAsset.name}: ${actualHash}`, {version: versionString});
+      } else if (checksumPolicy === 'require') {
+        throw new IntegrityError(`Release ${versionString} publishes no SHA-256 checksum for ${targetAsset.name}.`);
+      } else {
+        log.warn(
+          `Release ${versionString} publishes no SHA-256 checksum for ${targetAsset.name}; installing unverified.`,
+          {version: versionString},
+        );
+      }
 
-      log('debug', `Extracting ${zipFilePath}...`);
+      throwIfAborted(options.signal, 'CLI setup');
+      log.debug(`Extracting ${zipFilePath}...`);
       await fsPromises.mkdir(tempExtractionPath, {recursive: true});
       await decompress(zipFilePath, tempExtractionPath);
+      await writeIntegrityManifest(tempExtractionPath, targetAsset.name, expectedHash);
 
       // Verify executable and required runtime configuration files exist in extracted contents
-      await verifyCliFiles(tempExtractionPath, cliName, executableName);
-      log('debug', 'Extraction and file verification complete.');
+      await verifyCliFiles(tempExtractionPath, cliName, executableName, checksumPolicy);
+      log.debug('Extraction and file verification complete.');
 
+      // Last point to cancel before the installed version is replaced
+      throwIfAborted(options.signal, 'CLI setup');
       // Safely move extracted directory to final target location
       await fsPromises.mkdir(baseDestinationDir, {recursive: true});
       await safeRemoveDir(finalExtractionPath, cliName, log);
@@ -331,11 +1002,13 @@ async function downloadAndExtractLatestCli(
       await safeRemoveDir(tempDownloadDir, cliName, log).catch(() => {});
     }
 
-    log('info', `${cliName} is ready at ${finalExtractionPath}`);
+    log.info(`${cliName} is ready at ${finalExtractionPath}`, {version: versionString});
     return finalExtractionPath;
   } catch (error) {
+    // A cancelled or unverifiable setup does not fall back to an older version
+    if (options.signal?.aborted || error instanceof IntegrityError) throw error;
     const err = error as Error;
-    log('warn', 'An error occurred during setup. Attempting to use a local version as fallback.', err.message);
+    log.warn(`An error occurred during setup. Attempting to use a local version as fallback. ${err.message}`);
     return await fallbackToLocalVersion(err);
   }
 }
@@ -343,29 +1016,57 @@ async function downloadAndExtractLatestCli(
 /**
  * Downloads and extracts the latest version of the CLI tool.
  * @param {string} targetDir - The base directory where the CLI tool should be saved.
- * @param {LogLevel} [logLevel='info'] - The level of logging to use.
+ * @param {LogLevel | MonitorLogger} [logger='info'] - The level of logging to the console, or a logger.
+ * @param {DownloadOptions} [options] - Release source, pinned version or channel, checksum policy and abort signal.
  * @return {Promise<string>} A promise that resolves with the path to the executable.
+ * @throws {MonitorError} With type 'aborted' (or 'timeout_error' for `AbortSignal.timeout()`) when cancelled.
  */
-export default async function DownloadCli(targetDir: string, logLevel: LogLevel = 'info'): Promise<string> {
-  const log = createLogger(logLevel);
-  const repoOwner = 'TheLynxHub';
-  const repoName = 'Lynx-HardwareCLI';
+export default async function DownloadCli(
+  targetDir: string,
+  logger: LogLevel | MonitorLogger = 'info',
+  options: DownloadOptions = {},
+): Promise<string> {
+  const log = withLogContext(resolveLogger(logger), {component: 'downloader'});
+  const startedAt = Date.now();
+  const checksumPolicy = options.checksumPolicy ?? 'warn';
   const cliName = 'LynxHardwareCLI';
   const cliBaseDir = path.join(targetDir, cliName);
+  let lock: InstallLock | null = null;
 
   try {
-    const extractedPath = await downloadAndExtractLatestCli(repoOwner, repoName, cliName, cliBaseDir, log);
-    log('debug', `CLI tool is ready at: ${extractedPath}`);
+    throwIfAborted(options.signal, 'CLI setup');
+    // Serializes download, extraction and cleanup with other processes using the same targetDir;
+    // later callers find the finished install and skip the download
+    await fsPromises.mkdir(targetDir, {recursive: true});
+    lock = await InstallLock.acquire(path.join(targetDir, `${cliName}.lock`), logger, {
+      timeoutMs: options.lockTimeoutMs,
+      staleMs: options.staleLockMs,
+      signal: options.signal,
+    });
+
+    const extractedPath = await downloadAndExtractLatestCli(cliName, cliBaseDir, log, options);
+    log.debug(`CLI tool is ready at: ${extractedPath}`, {
+      version: path.basename(extractedPath),
+      durationMs: Date.now() - startedAt,
+    });
 
     const executableName = os.platform() === 'win32' ? `${cliName}.exe` : cliName;
     const executablePath = path.join(extractedPath, executableName);
-    log('debug', `Executable should be at: ${executablePath}`);
+    log.debug(`Executable should be at: ${executablePath}`);
 
-    await verifyCliFiles(extractedPath, cliName, executableName);
-    log('debug', `Executable and configuration files verified at: ${extractedPath}`);
+    await verifyCliFiles(extractedPath, cliName, executableName, checksumPolicy);
+    log.debug(`Executable and configuration files verified at: ${extractedPath}`);
     return executablePath;
   } catch (error) {
-    log('error', 'An error occurred during CLI download and setup:', (error as Error).message);
+    if (options.signal?.aborted) {
+      log.info('CLI setup aborted.', {durationMs: Date.now() - startedAt});
+      throw createAbortError(options.signal, 'CLI setup');
+    }
+    log.error(`An error occurred during CLI download and setup: ${(error as Error).message}`, {
+      durationMs: Date.now() - startedAt,
+    });
     throw error;
+  } finally {
+    await lock?.release();
   }
 }
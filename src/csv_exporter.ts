@@ -0,0 +1,276 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type HardwareMonitor from './index.js';
+import type {ComponentType, HardwareReport, MonitorError} from './index.js';
+import {flattenReport, matchesSensorFilter, SensorEntry, SensorFilter} from './sensor_query.js';
+
+/** A sensor Identifier, or a query matching any number of sensors. */
+export type CsvSensorSelector = string | SensorFilter;
+
+export type CsvOptions = {
+  /** Sensors to export as columns, in this order. Defaults to every sensor. */
+  sensors?: CsvSensorSelector[];
+  /** Field separator. Defaults to ','; use ';' for spreadsheets in locales with a decimal comma. */
+  delimiter?: string;
+};
+
+export type CsvRotationOptions = {
+  /** Start a new file before a row would make the current one larger than this. */
+  maxBytes?: number;
+  /** Start a new file once the current one is this old. */
+  intervalMs?: number;
+};
+
+export type CsvExportOptions = CsvOptions & {
+  /** Split the export over several files, each with its own header. */
+  rotate?: CsvRotationOptions;
+  /** Interval passed to startTimed. Defaults to 1000ms. */
+  intervalMs?: number;
+  /** Components passed to startTimed. Defaults to all. */
+  components?: ComponentType[];
+  /** Call startTimed/stopTimed with the export lifecycle. Set to false if the monitor is already running. */
+  manageMonitoring?: boolean;
+  /**
+   * Receives a 'write_error' MonitorError if a file cannot be written; the export stops then.
+   * Defaults to emitting it as 'error' on the monitor.
+   */
+  onError?: (error: MonitorError) => void;
+};
+
+export type CsvExport = {
+  /** File currently written to. */
+  readonly filePath: string;
+  /** Every file written so far, oldest first. */
+  readonly files: string[];
+  /** Rows written so far, across all files. */
+  readonly rows: number;
+  /** Stops listening, flushes and closes the current file and, when managed, stops timed monitoring. */
+  close: () => Promise<void>;
+};
+
+type CsvColumn = {
+  identifier: string;
+  header: string;
+};
+
+/**
+ * Quotes a CSV field when it contains the delimiter, a quote or a line break.
+ * @param value The field value.
+ * @param delimiter The field separator.
+ */
+function escapeCsvField(value: string, delimiter: string): string {
+  if (!value.includes(delimiter) && !/["\r\n]/.test(value)) return value;
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+function columnHeader(entry: SensorEntry): string {
+  const unit = entry.sensor.Unit ? ` [${entry.sensor.Unit}]` : '';
+  return `${entry.path.join(' / ')} / ${entry.sensor.Name}${unit}`;
+}
+
+/**
+ * Column set that only grows: a sensor keeps its column for as long as the set is used,
+ * so rows stay aligned when sensors disappear and reappear.
+ */
+class CsvColumns {
+  public readonly columns: CsvColumn[] = [];
+  private readonly known = new Set<string>();
+  private readonly selectors: CsvSensorSelector[] | undefined;
+
+  constructor(selectors: CsvSensorSelector[] | undefined) {
+    this.selectors = selectors && selectors.length > 0 ? selectors : undefined;
+    // Identifiers asked for by name get their column even if the first reports lack them
+    for (const selector of this.selectors ?? []) {
+      if (typeof selector === 'string') this.add(selector, selector);
+    }
+  }
+
+  /**
+   * Adds columns for selected sensors in the report that have none yet, naming explicit identifiers
+   * after their sensor the first time it is seen.
+   * @param report The report to take sensors from.
+   */
+  public update(report: HardwareReport): void {
+    const entries = flattenReport(report);
+    const named = new Map(this.columns.map(column => [column.identifier, column]));
+    for (const entry of this.select(entries)) {
+      const existing = named.get(entry.sensor.Identifier);
+      if (existing) {
+        if (existing.header === existing.identifier) existing.header = columnHeader(entry);
+      } else {
+        this.add(entry.sensor.Identifier, columnHeader(entry));
+      }
+    }
+  }
+
+  public header(delimiter: string): string {
+    return ['Timestamp', ...this.columns.map(column => column.header)]
+      .map(field => escapeCsvField(field, delimiter))
+      .join(delimiter);
+  }
+
+  public row(report: HardwareReport, delimiter: string): string {
+    const values = new Map<string, number | null>();
+    for (const entry of flattenReport(report)) values.set(entry.sensor.Identifier, entry.sensor.Value);
+    const cells = this.columns.map(column => {
+      const value = values.get(column.identifier);
+      return value === null || value === undefined ? '' : String(value);
+    });
+    return [report.Timestamp, ...cells].map(field => escapeCsvField(field, delimiter)).join(delimiter);
+  }
+
+  private add(identifier: string, header: string): void {
+    if (this.known.has(identifier)) return;
+    this.known.add(identifier);
+    this.columns.push({identifier, header});
+  }
+
+  // Selector order first, then report order within each selector
+  private select(entries: SensorEntry[]): SensorEntry[] {
+    if (!this.selectors) return entries;
+    const selected = new Set<SensorEntry>();
+    for (const selector of this.selectors) {
+      for (const entry of entries) {
+        const matches =
+          typeof selector === 'string' ? entry.sensor.Identifier === selector : matchesSensorFilter(entry, selector);
+        if (matches) selected.add(entry);
+      }
+    }
+    return [...selected];
+  }
+}
+
+/**
+ * Converts reports to CSV with one row per report. Columns cover every selected sensor found in any of
+ * the reports; cells are empty where a report lacks the sensor or its value is null.
+ * @param reports Reports in the order they should appear.
+ * @param options Column selection and delimiter.
+ * @returns The CSV text, including the header row.
+ */
+export function reportsToCsv(reports: HardwareReport[], options: CsvOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const columns = new CsvColumns(options.sensors);
+  for (const report of reports) columns.update(report);
+  const lines = [columns.header(delimiter), ...reports.map(report => columns.row(report, delimiter))];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Path of the nth file of a rotated export: 'session.csv', then 'session.1.csv', 'session.2.csv', ...
+ * @param filePath Path of the first file.
+ * @param index File number, starting at 0.
+ */
+function rotatedPath(filePath: string, index: number): string {
+  if (index === 0) return filePath;
+  const extension = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - extension.length)}.${index}${extension}`;
+}
+
+/**
+ * Writes every timed report of the monitor to a CSV file, one row per report.
+ * Columns are fixed by the first report (plus explicitly listed identifiers), so every file of a session
+ * has the same header; sensors that only appear later are not added.
+ * The monitor must be ready (checkRequirements() resolved) before calling this when monitoring is managed.
+ * @param monitor The monitor providing 'data' events.
+ * @param filePath Path of the (first) CSV file. Existing files are overwritten.
+ * @param options Column selection, rotation and monitoring options.
+ * @returns The running export.
+ * @throws Error if monitoring is managed and timed monitoring is already active.
+ */
+export function startCsvExport(monitor: HardwareMonitor, filePath: string, options: CsvExportOptions = {}): CsvExport {
+  const delimiter = options.delimiter ?? ',';
+  const manageMonitoring = options.manageMonitoring ?? true;
+  if (manageMonitoring && monitor.timedActive) {
+    throw new Error('Timed monitoring is already active. Stop it first or set manageMonitoring to false.');
+  }
+  const columns = new CsvColumns(options.sensors);
+  const files: string[] = [];
+  let stream: fs.WriteStream | null = null;
+  let fileBytes = 0;
+  let fileStartedAt = 0;
+  let rows = 0;
+  let headerLine: string | null = null;
+  let closed = false;
+  let failed = false;
+
+  const stop = () => {
+    closed = true;
+    monitor.off('data', onData);
+    if (manageMonitoring) monitor.stopTimed();
+  };
+
+  const fail = (file: string, error: Error) => {
+    if (failed) return;
+    failed = true;
+    stream?.destroy();
+    if (!closed) stop();
+    const err: MonitorError = new Error(`CSV export to ${file} stopped: ${error.message}`) as MonitorError;
+    err.type = 'write_error';
+    err.rawError = error;
+    if (options.onError) options.onError(err);
+    else monitor.emit('error', err);
+  };
+
+  const openFile = () => {
+    const nextPath = rotatedPath(filePath, files.length);
+    stream?.end();
+    const next = fs.createWriteStream(nextPath, {flags: 'w', encoding: 'utf8'});
+    next.on('error', error => fail(nextPath, error));
+    stream = next;
+    files.push(nextPath);
+    fileStartedAt = Date.now();
+    fileBytes = Buffer.byteLength(headerLine!);
+    stream.write(headerLine);
+  };
+
+  const onData = (report: HardwareReport) => {
+    if (closed) return;
+    if (headerLine === null) {
+      columns.update(report);
+      headerLine = `${columns.header(delimiter)}\n`;
+      openFile();
+    }
+
+    const line = `${columns.row(report, delimiter)}\n`;
+    const lineBytes = Buffer.byteLength(line);
+    const hasRows = fileBytes > Buffer.byteLength(headerLine);
+    const {maxBytes, intervalMs} = options.rotate ?? {};
+    const tooLarge = maxBytes !== undefined && fileBytes + lineBytes > maxBytes;
+    const tooOld = intervalMs !== undefined && Date.now() - fileStartedAt >= intervalMs;
+    if (hasRows && (tooLarge || tooOld)) openFile();
+
+    stream!.write(line);
+    fileBytes += lineBytes;
+    rows++;
+  };
+  monitor.on('data', onData);
+
+  if (manageMonitoring) {
+    try {
+      monitor.startTimed(options.intervalMs ?? 1000, options.components);
+    } catch (error) {
+      // An 'error' event without listener is thrown by startTimed; no data must be written after that
+      closed = true;
+      monitor.off('data', onData);
+      throw error;
+    }
+  }
+
+  return {
+    get filePath() {
+      return files[files.length - 1] ?? filePath;
+    },
+    get files() {
+      return [...files];
+    },
+    get rows() {
+      return rows;
+    },
+    close: async () => {
+      if (closed) return;
+      stop();
+      const current = stream as fs.WriteStream | null;
+      if (current && !failed) await new Promise<void>(resolve => current.end(() => resolve()));
+    },
+  };
+}
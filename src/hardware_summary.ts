@@ -0,0 +1,323 @@
+import type {HardwareItemInfo, HardwareReport, SensorInfo} from './index.js';
+import {canConvert, convertValue, describeSensor, SensorUnit} from './sensor_units.js';
+
+export type CpuSummary = {
+  name: string;
+  /** Total load in %. */
+  load: number | null;
+  /** Package (or hottest die) temperature in °C. */
+  packageTemperature: number | null;
+  /** Package power draw in W. */
+  power: number | null;
+  /** Average core clock in MHz. */
+  coreClock: number | null;
+};
+
+export type GpuSummary = {
+  name: string;
+  vendor: 'nvidia' | 'amd' | 'intel' | null;
+  /** Core (3D) load in %. */
+  load: number | null;
+  /** Core temperature in °C. */
+  temperature: number | null;
+  /** Hot spot (junction) temperature in °C. */
+  hotSpotTemperature: number | null;
+  /** Board power draw in W. */
+  power: number | null;
+  /** Core clock in MHz. */
+  coreClock: number | null;
+  /** Memory clock in MHz. */
+  memoryClock: number | null;
+  /** Dedicated memory used in MiB. */
+  memoryUsed: number | null;
+  /** Dedicated memory size in MiB. */
+  memoryTotal: number | null;
+  /** Dedicated memory used in %. */
+  memoryPercent: number | null;
+};
+
+export type MemorySummary = {
+  /** Used RAM in GiB. */
+  used: number | null;
+  /** Available RAM in GiB. */
+  available: number | null;
+  /** Total RAM in GiB. */
+  total: number | null;
+  /** Used RAM in %. */
+  percent: number | null;
+};
+
+export type StorageSummary = {
+  name: string;
+  /** Time the drive was busy, in %. */
+  activity: number | null;
+  /** Read rate in bytes per second. */
+  readRate: number | null;
+  /** Write rate in bytes per second. */
+  writeRate: number | null;
+  /** Drive temperature in °C. */
+  temperature: number | null;
+  /** Used space in %. */
+  usedSpace: number | null;
+};
+
+export type NetworkSummary = {
+  name: string;
+  /** Upload rate in bytes per second. */
+  upload: number | null;
+  /** Download rate in bytes per second. */
+  download: number | null;
+};
+
+export type BatterySummary = {
+  name: string;
+  /** Charge level in %. */
+  percent: number | null;
+  /** True while charging, false while discharging, null if unknown. */
+  charging: boolean | null;
+  /** Charge or discharge rate in W. */
+  power: number | null;
+};
+
+/**
+ * Vendor-agnostic snapshot of the most commonly used metrics. Every metric is null when no matching sensor
+ * was reported; arrays are empty when there is no such device.
+ */
+export type HardwareSummary = {
+  timestamp: string;
+  cpu: CpuSummary[];
+  gpu: GpuSummary[];
+  memory: MemorySummary | null;
+  storage: StorageSummary[];
+  network: NetworkSummary[];
+  battery: BatterySummary[];
+  /** System uptime in seconds, if included in the report. */
+  uptimeSeconds: number | null;
+};
+
+/** Sensor name patterns, tried in order; strings match whole names case-insensitively. */
+type NamePattern = string | RegExp;
+
+function matchesName(name: string, pattern: NamePattern): boolean {
+  return typeof pattern === 'string' ? name.toLowerCase() === pattern.toLowerCase() : pattern.test(name);
+}
+
+/** All sensors of an item, including its sub-hardware (e.g. a CPU's temperature chip). */
+function collectSensors(item: HardwareItemInfo): SensorInfo[] {
+  return [...(item.Sensors || []), ...(item.SubHardware || []).flatMap(collectSensors)];
+}
+
+/**
+ * Reads a sensor value in the given unit, converting from the reported unit. Values in a unit that cannot be
+ * converted are skipped (null), so e.g. a 'Load' sensor reported in MHz does not end up as a percentage.
+ * @param sensor The sensor to read.
+ * @param unit Unit of the returned value.
+ */
+function readValue(sensor: SensorInfo, unit: SensorUnit): number | null {
+  if (sensor.Value === null || !Number.isFinite(sensor.Value)) return null;
+  const from = describeSensor(sensor).unit;
+  if (!from || from === unit) return sensor.Value;
+  return canConvert(from, unit) ? convertValue(sensor.Value, from, unit) : null;
+}
+
+/**
+ * Picks the first sensor of the given type whose name matches the patterns, trying patterns in priority
+ * order and skipping sensors without a value.
+ * @param sensors Candidate sensors.
+ * @param type SensorInfo.Type to look at, e.g. 'Temperature'.
+ * @param patterns Name patterns, best first.
+ * @param unit Unit of the returned value.
+ */
+function pick(sensors: SensorInfo[], type: string, patterns: NamePattern[], unit: SensorUnit): number | null {
+  const ofType = sensors.filter(sensor => sensor.Type.toLowerCase() === type.toLowerCase());
+  for (const pattern of patterns) {
+    for (const sensor of ofType) {
+      if (!matchesName(sensor.Name, pattern)) continue;
+      const value = readValue(sensor, unit);
+      if (value !== null) return value;
+    }
+  }
+  return null;
+}
+
+function values(sensors: SensorInfo[], type: string, pattern: NamePattern, unit: SensorUnit): number[] {
+  return sensors
+    .filter(sensor => sensor.Type.toLowerCase() === type.toLowerCase() && matchesName(sensor.Name, pattern))
+    .map(sensor => readValue(sensor, unit))
+    .filter((value): value is number => value !== null);
+}
+
+function average(list: number[]): number | null {
+  return list.length > 0 ? list.reduce((sum, value) => sum + value, 0) / list.length : null;
+}
+
+const CORE_NAME = /^(cpu )?([pe]-)?core #?\d+$/i;
+
+/**
+ * CPU heuristics:
+ * - load: 'CPU Total', else the average of per-core loads.
+ * - packageTemperature: 'CPU Package' (Intel), 'Package id N' (Linux coretemp), 'Core (Tctl/Tdie)', 'Tdie', 'Tctl'
+ *   (AMD), 'Core Max', 'Core Average', else the hottest per-core temperature.
+ * - power: 'CPU Package' or 'Package' (AMD), else 'CPU Cores'.
+ * - coreClock: the average of 'Core #N'/'CPU Core #N' clocks (also 'P-Core #N'/'E-Core #N' on hybrid CPUs),
+ *   ignoring the bus clock.
+ */
+function summarizeCpu(item: HardwareItemInfo): CpuSummary {
+  const sensors = collectSensors(item);
+  const coreTemperatures = values(sensors, 'Temperature', /core/i, '°C');
+  return {
+    name: item.Name,
+    load: pick(sensors, 'Load', ['CPU Total'], '%') ?? average(values(sensors, 'Load', CORE_NAME, '%')),
+    packageTemperature:
+      pick(
+        sensors,
+        'Temperature',
+        [
+          'CPU Package',
+          /^package id \d+$/i,
+          'Core (Tctl/Tdie)',
+          'Tdie',
+          'Tctl',
+          'Core (Tctl)',
+          'Core Max',
+          'Core Average',
+        ],
+        '°C',
+      ) ?? (coreTemperatures.length > 0 ? Math.max(...coreTemperatures) : null),
+    power: pick(sensors, 'Power', ['CPU Package', 'Package', 'CPU Cores'], 'W'),
+    coreClock: average(values(sensors, 'Clock', CORE_NAME, 'MHz')),
+  };
+}
+
+/**
+ * GPU heuristics:
+ * - vendor: from HardwareType ('GpuNvidia', 'GpuAmd', 'GpuIntel').
+ * - load: 'GPU Core', else 'D3D 3D' (Intel and Windows D3D counters).
+ * - temperature: 'GPU Core', else 'edge' (Linux amdgpu); hotSpotTemperature: 'GPU Hot Spot', else 'junction'.
+ * - power: 'GPU Package', 'GPU Power', 'GPU Core', 'PPT' (Linux amdgpu).
+ * - coreClock: 'GPU Core', else 'sclk'; memoryClock: 'GPU Memory', else 'mclk'.
+ * - memoryUsed/memoryTotal: 'GPU Memory Used'/'GPU Memory Total', else the D3D dedicated memory counters; the total
+ *   falls back to used + 'GPU Memory Free'. memoryPercent is computed from them, else taken from the 'GPU Memory' load.
+ */
+function summarizeGpu(item: HardwareItemInfo): GpuSummary {
+  const sensors = collectSensors(item);
+  const type = item.HardwareType.toLowerCase();
+  const vendor = type.includes('nvidia')
+    ? 'nvidia'
+    : type.includes('amd')
+      ? 'amd'
+      : type.includes('intel')
+        ? 'intel'
+        : null;
+
+  const memoryUsed = pick(sensors, 'SmallData', ['GPU Memory Used', 'D3D Dedicated Memory Used'], 'MiB');
+  const memoryFree = pick(sensors, 'SmallData', ['GPU Memory Free', 'D3D Dedicated Memory Free'], 'MiB');
+  const memoryTotal =
+    pick(sensors, 'SmallData', ['GPU Memory Total', 'D3D Dedicated Memory Total'], 'MiB') ??
+    (memoryUsed !== null && memoryFree !== null ? memoryUsed + memoryFree : null);
+  const memoryPercent =
+    memoryUsed !== null && memoryTotal ? (memoryUsed / memoryTotal) * 100 : pick(sensors, 'Load', ['GPU Memory'], '%');
+
+  return {
+    name: item.Name,
+    vendor,
+    load: pick(sensors, 'Load', ['GPU Core', 'D3D 3D'], '%'),
+    temperature: pick(sensors, 'Temperature', ['GPU Core', 'edge'], '°C'),
+    hotSpotTemperature: pick(sensors, 'Temperature', ['GPU Hot Spot', 'junction'], '°C'),
+    power: pick(sensors, 'Power', ['GPU Package', 'GPU Power', 'GPU Core', 'PPT'], 'W'),
+    coreClock: pick(sensors, 'Clock', ['GPU Core', 'sclk'], 'MHz'),
+    memoryClock: pick(sensors, 'Clock', ['GPU Memory', 'mclk'], 'MHz'),
+    memoryUsed,
+    memoryTotal,
+    memoryPercent,
+  };
+}
+
+/**
+ * Memory heuristics: 'Memory Used' and 'Memory Available' data sensors of the first memory item reporting them
+ * (virtual memory is ignored). total is used + available; percent is the 'Memory' load, else computed.
+ */
+function summarizeMemory(items: HardwareItemInfo[]): MemorySummary | null {
+  for (const item of items) {
+    const sensors = collectSensors(item);
+    const used = pick(sensors, 'Data', ['Memory Used'], 'GiB');
+    const available = pick(sensors, 'Data', ['Memory Available'], 'GiB');
+    if (used === null && available === null) continue;
+
+    const total = used !== null && available !== null ? used + available : null;
+    return {
+      used,
+      available,
+      total,
+      percent: pick(sensors, 'Load', ['Memory'], '%') ?? (used !== null && total ? (used / total) * 100 : null),
+    };
+  }
+  return null;
+}
+
+/**
+ * Storage heuristics: 'Total Activity' and 'Used Space' loads, 'Read Rate'/'Write Rate' throughputs, and the
+ * 'Temperature' or 'Composite Temperature' sensor, else the first temperature reported for the drive.
+ */
+function summarizeStorage(item: HardwareItemInfo): StorageSummary {
+  const sensors = collectSensors(item);
+  return {
+    name: item.Name,
+    activity: pick(sensors, 'Load', ['Total Activity'], '%'),
+    readRate: pick(sensors, 'Throughput', ['Read Rate'], 'B/s'),
+    writeRate: pick(sensors, 'Throughput', ['Write Rate'], 'B/s'),
+    temperature: pick(sensors, 'Temperature', ['Temperature', 'Composite Temperature', /./], '°C'),
+    usedSpace: pick(sensors, 'Load', ['Used Space'], '%'),
+  };
+}
+
+/** Network heuristics: 'Upload Speed' and 'Download Speed' throughputs. */
+function summarizeNetwork(item: HardwareItemInfo): NetworkSummary {
+  const sensors = collectSensors(item);
+  return {
+    name: item.Name,
+    upload: pick(sensors, 'Throughput', ['Upload Speed'], 'B/s'),
+    download: pick(sensors, 'Throughput', ['Download Speed'], 'B/s'),
+  };
+}
+
+/**
+ * Battery heuristics: 'Charge Level' for percent. A non-zero 'Charge Rate' or 'Charge Current' means charging,
+ * a non-zero 'Discharge Rate' or 'Discharge Current' means discharging; power is whichever rate is reported.
+ */
+function summarizeBattery(item: HardwareItemInfo): BatterySummary {
+  const sensors = collectSensors(item);
+  const chargeRate = pick(sensors, 'Power', ['Charge Rate'], 'W');
+  const dischargeRate = pick(sensors, 'Power', ['Discharge Rate'], 'W');
+  const chargeCurrent = pick(sensors, 'Current', ['Charge Current'], 'A');
+  const dischargeCurrent = pick(sensors, 'Current', ['Discharge Current'], 'A');
+
+  let charging: boolean | null = null;
+  if (chargeRate || chargeCurrent) charging = true;
+  else if (dischargeRate || dischargeCurrent) charging = false;
+
+  return {
+    name: item.Name,
+    percent: pick(sensors, 'Level', ['Charge Level'], '%'),
+    charging,
+    power: charging === false ? dischargeRate : (chargeRate ?? dischargeRate),
+  };
+}
+
+/**
+ * Reduces a report to well-known metrics per device, independent of the vendor-specific sensor names.
+ * The heuristics for each metric are documented on the summarize functions above and in the README.
+ * @param report The report to summarise. Sensors may be in any known unit; values are converted.
+ */
+export function summarizeReport(report: HardwareReport): HardwareSummary {
+  return {
+    timestamp: report.Timestamp,
+    cpu: (report.CPU || []).map(summarizeCpu),
+    gpu: (report.GPU || []).map(summarizeGpu),
+    memory: summarizeMemory(report.Memory || []),
+    storage: (report.Storage || []).map(summarizeStorage),
+    network: (report.Network || []).map(summarizeNetwork),
+    battery: (report.Battery || []).map(summarizeBattery),
+    uptimeSeconds: report.Uptime?.rawSeconds ?? null,
+  };
+}
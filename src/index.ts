@@ -1,8 +1,109 @@
-import {ChildProcess, spawn} from 'node:child_process';
 import {EventEmitter} from 'node:events';
+import {ReadableStream} from 'node:stream/web';
 import os from 'node:os';
-import {checkDotNetRuntime10} from './utils.js';
-import DownloadCli from './cli_downloader.js';
+import type {MonitorBackend} from './backend.js';
+import {CliBackend} from './cli_backend.js';
+import type {DownloadOptions, DownloadProgress} from './cli_downloader.js';
+import {getArchIdentifier, getOsIdentifier, RequirementsReport} from './requirements.js';
+import {MonitorLogger, resolveLogger, withLogContext} from './logger.js';
+import {HistoryOptions, SensorHistory} from './sensor_history.js';
+import {AlertClearedEvent, AlertEngine, AlertEvent, AlertRule} from './alert_rules.js';
+import {ChangeTracker, DiffOptions, isEmptyDiff} from './report_diff.js';
+import {HardwareSummary, summarizeReport} from './hardware_summary.js';
+import {ReportQueue} from './report_stream.js';
+import {convertReport, UnitPreferences} from './sensor_units.js';
+import {readRecordingHeader, ReplayOptions, ReplayProcess, SessionRecorder} from './session_recorder.js';
+import {GaveUpEvent, RestartedEvent, RestartingEvent, SupervisorOptions, TimedSession} from './timed_session.js';
+import {SharedSessionConfig, SubscribeOptions, Subscription, SubscriptionHub} from './subscription_hub.js';
+import {OnceCoalescer} from './once_coalescer.js';
+import {createAbortError, throwIfAborted} from './abort.js';
+
+export type {MonitorBackend} from './backend.js';
+export {CliBackend} from './cli_backend.js';
+export type {
+  ChecksumPolicy,
+  DownloadOptions,
+  DownloadProgress,
+  ReleaseChannel,
+  ReleaseSource,
+} from './cli_downloader.js';
+export {createAbortError, throwIfAborted} from './abort.js';
+export {createConsoleLogger, withLogContext} from './logger.js';
+export type {LogContext, MonitorLogger} from './logger.js';
+export {diagnoseDotNet, parseDotNetRuntimes} from './requirements.js';
+export type {
+  CliInstallInfo,
+  DotNetDiagnostics,
+  DotNetHostSource,
+  DotNetRuntime,
+  RequirementsError,
+  RequirementsFailure,
+  RequirementsFailureCode,
+  RequirementsReport,
+} from './requirements.js';
+export {LinuxBackend} from './linux_backend.js';
+export type {LinuxBackendOptions} from './linux_backend.js';
+export type {TimedProcess} from './timed_session.js';
+export {
+  flattenReport,
+  globToRegExp,
+  matchesSensorFilter,
+  querySensors,
+  REPORT_CATEGORIES,
+  SensorIndex,
+} from './sensor_query.js';
+export type {ReportCategory, SensorEntry, SensorFilter} from './sensor_query.js';
+export {SensorHistory} from './sensor_history.js';
+export type {HistoryOptions, HistoryRange, SensorSample, SensorStats} from './sensor_history.js';
+export {AlertEngine} from './alert_rules.js';
+export type {AlertClearedEvent, AlertDirection, AlertEvent, AlertRule, AlertTarget} from './alert_rules.js';
+export {escapeLabelValue, formatOpenMetrics, startMetricsServer} from './metrics_exporter.js';
+export type {MetricsServer, MetricsServerOptions, OpenMetricsOptions} from './metrics_exporter.js';
+export {summarizeReport} from './hardware_summary.js';
+export type {
+  BatterySummary,
+  CpuSummary,
+  GpuSummary,
+  HardwareSummary,
+  MemorySummary,
+  NetworkSummary,
+  StorageSummary,
+} from './hardware_summary.js';
+export {reportsToCsv, startCsvExport} from './csv_exporter.js';
+export type {CsvExport, CsvExportOptions, CsvOptions, CsvRotationOptions, CsvSensorSelector} from './csv_exporter.js';
+export {startLiveServer} from './live_server.js';
+export {createJsonFramerStream, createJsonFramerTransform, JsonFramer} from './json_framer.js';
+export type {JsonFrame, JsonFramerOptions} from './json_framer.js';
+export type {LiveServer, LiveServerOptions} from './live_server.js';
+export {ChangeTracker, diffReports, isEmptyDiff} from './report_diff.js';
+export type {DiffOptions, HardwareSnapshot, ReportDiff, SensorChange, SensorSnapshot} from './report_diff.js';
+export {
+  canConvert,
+  convertReport,
+  convertValue,
+  describeSensor,
+  getSensorKind,
+  SENSOR_KIND_UNITS,
+} from './sensor_units.js';
+export type {
+  CurrentUnit,
+  DataUnit,
+  EnergyUnit,
+  FrequencyUnit,
+  PowerUnit,
+  SensorDescriptor,
+  SensorKind,
+  SensorUnit,
+  TemperatureUnit,
+  ThroughputUnit,
+  TimeUnit,
+  UnitPreferences,
+  VoltageUnit,
+} from './sensor_units.js';
+export {readRecordingHeader, RECORDING_FORMAT_VERSION, SessionRecorder} from './session_recorder.js';
+export type {RecordingEntry, RecordingHeader, ReplayOptions} from './session_recorder.js';
+export type {GaveUpEvent, RestartedEvent, RestartingEvent, RestartReason, SupervisorOptions} from './timed_session.js';
+export type {SharedSessionConfig, SubscribeOptions, Subscription} from './subscription_hub.js';
 
 export type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug';
 
@@ -42,7 +143,14 @@ export type HardwareReport = {
 };
 
 export type MonitorError = Error & {
-  type: 'spawn_error' | 'process_error' | 'json_parse_error' | 'timeout_error';
+  type:
+    | 'spawn_error'
+    | 'process_error'
+    | 'json_parse_error'
+    | 'timeout_error'
+    | 'requirements_error'
+    | 'write_error'
+    | 'aborted';
   rawError?: any;
   stderrData?: string;
 };
@@ -61,34 +169,125 @@ export type ComponentType =
   | 'uptime'
   | string;
 
+export type OnceOptions = {
+  /** Convert sensor values to these units before returning the report. */
+  units?: UnitPreferences;
+  /** Always read a new report with its own process, bypassing the cache, coalescing and the timed stream. */
+  fresh?: boolean;
+  /** Rejects the call with an 'aborted' MonitorError (or 'timeout_error' for `AbortSignal.timeout()`). */
+  signal?: AbortSignal;
+};
+
+export type MonitorOptions = {
+  /** Report source. Defaults to a CliBackend running LynxHardwareCLI. */
+  backend?: MonitorBackend;
+  /** Options for downloading the CLI with the default backend, e.g. `{checksumPolicy: 'require'}`. */
+  download?: DownloadOptions;
+  /** dotnet executable (or its folder) for the default backend. DOTNET_ROOT and PATH are used otherwise. */
+  dotnetPath?: string;
+  /** Reuse the last report for getDataOnce() calls for this long. Defaults to 0 (no cache). */
+  onceCacheTtlMs?: number;
+};
+
+export type TimedOptions = {
+  /** Convert sensor values to these units before emitting reports. */
+  units?: UnitPreferences;
+  /** Restart the CLI with exponential backoff if it crashes or stops producing reports. */
+  supervise?: boolean | SupervisorOptions;
+  /** Record the raw CLI output, errors and timing to this NDJSON file for later replay. */
+  record?: string;
+  /** Stops timed monitoring (or ends the stream with an 'aborted' MonitorError) when aborted. */
+  signal?: AbortSignal;
+};
+
+export type TimedUpdate = {
+  /** New interval in milliseconds. */
+  intervalMs?: number;
+  /** New components; `[]` means all (including uptime). */
+  components?: ComponentType[];
+  /** Time the new configuration has to produce its first report. Defaults to 10000ms plus the interval. */
+  timeoutMs?: number;
+};
+
+/** Settings a timed session was started with. */
+type TimedConfig = {
+  intervalMs: number;
+  components?: ComponentType[];
+  options: TimedOptions;
+};
+
+type TimedUpdateWaiter = {
+  resolve: () => void;
+  reject: (err: Error) => void;
+};
+
+/** A session started by updateTimed() that has not produced its first report yet. */
+type PendingTimedUpdate = {
+  session: TimedSession;
+  config: TimedConfig;
+  timer: NodeJS.Timeout;
+  waiters: TimedUpdateWaiter[];
+  lastError: MonitorError | null;
+};
+
+export type StartReplayOptions = ReplayOptions & {
+  /** Convert sensor values to these units before emitting reports. */
+  units?: UnitPreferences;
+};
+
+export type StreamOptions = TimedOptions & {
+  /** Maximum reports buffered for a slow consumer; older ones are dropped. Defaults to 16. */
+  highWaterMark?: number;
+  /** Receives every MonitorError reported while streaming; errors that end the stream are also thrown. */
+  onError?: (error: MonitorError) => void;
+};
+
+/** Components read by getSummary(); motherboard, controller and PSU sensors are not summarised. */
+const SUMMARY_COMPONENTS: ComponentType[] = ['cpu', 'gpu', 'memory', 'storage', 'network', 'battery', 'uptime'];
+
 export default class HardwareMonitor extends EventEmitter {
-  private executablePath: string = '';
-  private activeProcess: ChildProcess | null = null;
-  private buffer: string = '';
-  private initialMessageSkipped: boolean = false;
+  private readonly backend: MonitorBackend;
+  private activeSession: TimedSession | null = null;
+  private timedConfig: TimedConfig | null = null;
+  private pendingUpdate: PendingTimedUpdate | null = null;
+  /** Holds the slot for startReplay() while it reads the recording header; cleared by stopTimed() to cancel it. */
+  private pendingReplay: object | null = null;
+  /** Removes the abort listener registered by startTimed(); kept across updateTimed() until the timed run ends. */
+  private releaseTimedSignal: (() => void) | null = null;
   private readonly creationTimestamp: number;
-  private readonly logLevel: LogLevel;
+  private readonly onceCoalescer: OnceCoalescer;
+  private readonly logger: MonitorLogger;
+  private readonly log: MonitorLogger;
+  private historyStore: SensorHistory | null = null;
+  private readonly recordHistory = (report: HardwareReport) => this.historyStore?.add(report);
+  private alertEngine: AlertEngine | null = null;
+  private readonly evaluateAlerts = (report: HardwareReport) => this.alertEngine?.evaluate(report);
+  private readonly forwardAlert = (event: AlertEvent) => this.emit('alert', event);
+  private readonly forwardAlertCleared = (event: AlertClearedEvent) => this.emit('alertCleared', event);
+  private subscriptionHub: SubscriptionHub | null = null;
+  private changeTracker: ChangeTracker | null = null;
+  private readonly trackChanges = (report: HardwareReport) => {
+    const diff = this.changeTracker?.update(report);
+    if (diff && !isEmptyDiff(diff)) this.emit('change', diff);
+  };
+  private summaryEvents: boolean = false;
+  private readonly emitSummary = (report: HardwareReport) => this.emit('summary', summarizeReport(report));
 
-  constructor(logLevel: LogLevel = 'info') {
+  /**
+   * @param logger - Log level for console output, or a logger receiving structured entries from the monitor,
+   *   the downloader and the .NET check. Defaults to 'info'.
+   * @param options - Backend and download options.
+   */
+  constructor(logger: LogLevel | MonitorLogger = 'info', options: MonitorOptions = {}) {
     super();
     this.creationTimestamp = Date.now();
-    this.logLevel = logLevel;
-  }
-
-  private log(level: LogLevel, ...args: any[]): void {
-    const levels: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
-    const currentLevelIndex = levels.indexOf(this.logLevel);
-    const messageLevelIndex = levels.indexOf(level);
-
-    if (currentLevelIndex >= messageLevelIndex && level !== 'silent') {
-      if (level === 'error') {
-        console.error(...args);
-      } else if (level === 'warn') {
-        console.warn(...args);
-      } else {
-        console.log(...args);
-      }
-    }
+    this.logger = resolveLogger(logger);
+    this.log = withLogContext(this.logger, {component: 'monitor'});
+    this.backend = options.backend ?? new CliBackend(this.logger, options.download, options.dotnetPath);
+    this.onceCoalescer = new OnceCoalescer(
+      (components, timeoutMs, signal) => this.readOnce(components, timeoutMs, signal),
+      options.onceCacheTtlMs ?? 0,
+    );
   }
 
   /**
@@ -114,44 +313,54 @@ export default class HardwareMonitor extends EventEmitter {
   }
 
   /**
-   * Builds arguments for the CLI executable.
-   * @param mode - 'once' or 'timed'.
-   * @param intervalMs - Interval for timed mode.
-   * @param components - Specific components to monitor. 'uptime' is handled internally.
-   * @returns Array of string arguments.
+   * Prepares the backend. For the default CLI backend this checks for the .NET 10.0 runtime and downloads the CLI tool.
+   * Emits 'downloadProgress' with DownloadProgress objects while the CLI is downloaded.
+   * @param targetDir - Directory to download the CLI tool.
+   * @param download - Optional download options for this call, e.g. a pinned version or an offline mirror.
+   *   Its `signal` aborts the checks and the download; temporary files are removed.
+   * @throws RequirementsError with a RequirementsReport if .NET 10.0 is not usable or download fails.
+   * @throws MonitorError with type 'aborted' (or 'timeout_error' for `AbortSignal.timeout()`) if aborted.
    */
-  private buildArgs(mode: 'once' | 'timed', intervalMs?: number, components?: ComponentType[]): string[] {
-    const args: string[] = ['--mode', mode];
-    const cliComponents = components?.filter(comp => comp !== 'uptime');
-
-    if (mode === 'timed' && intervalMs !== undefined) {
-      args.push('--interval', intervalMs.toString());
-    }
-    if (cliComponents && cliComponents.length > 0) {
-      args.push('--components', cliComponents.join(','));
-    }
-    return args;
+  public async checkRequirements(targetDir: string, download?: DownloadOptions): Promise<void> {
+    await this.backend.checkRequirements?.(targetDir, {
+      ...download,
+      onProgress: (progress: DownloadProgress) => {
+        download?.onProgress?.(progress);
+        this.emit('downloadProgress', progress);
+      },
+    });
+    this.log.info('✅ Lynx Hardware Monitor is ready to use.', {backend: this.backend.name});
   }
 
   /**
-   * Checks for .NET 10.0 runtime and downloads the CLI tool.
-   * @param targetDir - Directory to download the CLI tool.
-   * @throws Error if .NET 10.0 is not found or download fails.
+   * Reports the platform, the dotnet host and runtimes found, the CLI in use and anything preventing it from running.
+   * Nothing is downloaded. Backends without their own diagnostics report only the platform.
+   * @returns The requirements report.
    */
-  public async checkRequirements(targetDir: string): Promise<void> {
-    const logger = {
-      warn: (...args: any[]) => this.log('warn', ...args),
-      error: (...args: any[]) => this.log('error', ...args),
+  public async diagnoseRequirements(): Promise<RequirementsReport> {
+    if (this.backend.diagnose) return this.backend.diagnose();
+    return {
+      ok: true,
+      backend: this.backend.name,
+      platform: os.platform(),
+      arch: os.arch(),
+      osIdentifier: getOsIdentifier(),
+      archIdentifier: getArchIdentifier(),
+      requiredRuntime: null,
+      dotnet: null,
+      cli: null,
+      failures: [],
     };
+  }
 
-    const isDotNetInstalled = await checkDotNetRuntime10(logger);
-    if (!isDotNetInstalled) {
-      throw new Error(
-        '.NET 10.0 runtime not found. Please install it from https://dotnet.microsoft.com/download/dotnet/10.0',
-      );
-    }
-    this.executablePath = await DownloadCli(targetDir, this.logLevel);
-    this.log('info', '✅ Lynx Hardware Monitor is ready to use.');
+  private notReadyError(): MonitorError {
+    const message =
+      this.backend instanceof CliBackend
+        ? 'Executable path not set. Call checkRequirements() first.'
+        : `Hardware monitor backend '${this.backend.name}' is not ready. Call checkRequirements() first.`;
+    const err: MonitorError = new Error(message) as MonitorError;
+    err.type = 'spawn_error';
+    return err;
   }
 
   private addUptimeDataIfNeeded(report: HardwareReport, requestedComponents?: ComponentType[]): void {
@@ -171,327 +380,625 @@ export default class HardwareMonitor extends EventEmitter {
     }
   }
 
+  /**
+   * Fills in missing hardware arrays for full reports and attaches uptime data.
+   * @param parsedReport - Report object as parsed from the CLI output.
+   * @param components - Components that were requested.
+   * @param units - Optional preferred units to convert sensor values to.
+   * @returns The report handed to callers.
+   */
+  private finalizeReport(
+    parsedReport: HardwareReport,
+    components?: ComponentType[],
+    units?: UnitPreferences,
+  ): HardwareReport {
+    let finalReport: HardwareReport;
+    const cliComponentsRequested = components?.filter(comp => comp !== 'uptime');
+
+    if (!cliComponentsRequested || cliComponentsRequested.length === 0) {
+      finalReport = {
+        Timestamp: parsedReport.Timestamp || new Date().toISOString(),
+        CPU: parsedReport.CPU || [],
+        GPU: parsedReport.GPU || [],
+        Memory: parsedReport.Memory || [],
+        Motherboard: parsedReport.Motherboard || [],
+        Storage: parsedReport.Storage || [],
+        Network: parsedReport.Network || [],
+        Battery: parsedReport.Battery || [],
+        Controller: parsedReport.Controller || [],
+        Psu: parsedReport.Psu || [],
+      };
+    } else {
+      finalReport = parsedReport;
+    }
+
+    this.addUptimeDataIfNeeded(finalReport, components);
+    return units ? convertReport(finalReport, units) : finalReport;
+  }
+
   /**
    * Retrieves hardware data once.
+   * Calls are answered from the running timed stream when it covers the requested components, from the cached
+   * report (see `onceCacheTtlMs`), or by a CLI process shared with concurrent calls. Pass `{fresh: true}` to
+   * always read with a new process. Aborting `options.signal` rejects the call; a CLI process is killed once
+   * no other call is waiting for it.
    * @param components - Optional array of components to monitor. Defaults to all (including uptime).
    * @param timeoutMs - Optional timeout in milliseconds. Defaults to 10000ms.
+   * @param options - Optional options, e.g. preferred units or an AbortSignal.
    * @returns A Promise resolving to the HardwareReport.
    */
-  public getDataOnce(components?: ComponentType[], timeoutMs: number = 10000): Promise<HardwareReport> {
-    return new Promise((resolve, reject) => {
-      if (!this.executablePath) {
-        const err: MonitorError = new Error('Executable path not set. Call checkRequirements() first.') as MonitorError;
-        err.type = 'spawn_error'; // Or a new specific type like 'configuration_error'
-        return reject(err);
-      }
+  public getDataOnce(
+    components?: ComponentType[],
+    timeoutMs: number = 10000,
+    options: OnceOptions = {},
+  ): Promise<HardwareReport> {
+    if (!this.backend.ready) {
+      return Promise.reject(this.notReadyError());
+    }
+    const report = options.fresh
+      ? this.readOnce(components, timeoutMs, options.signal).then(fresh => {
+          this.onceCoalescer.store(fresh, components);
+          return fresh;
+        })
+      : this.onceCoalescer.get(components, timeoutMs, options.signal);
+    return report.then(finalReport => (options.units ? convertReport(finalReport, options.units) : finalReport));
+  }
+
+  /**
+   * Reads a report with a new CLI process.
+   * @param components - Requested components.
+   * @param timeoutMs - Time limit for the collection.
+   * @param signal - Kills the process when aborted.
+   * @returns The finalized report, without unit conversion.
+   */
+  private readOnce(
+    components: ComponentType[] | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<HardwareReport> {
+    const startedAt = Date.now();
+    return this.backend.readOnce(components, timeoutMs, signal).then(parsedReport => {
+      this.log.debug('HardwareMonitor: Collected report.', {durationMs: Date.now() - startedAt});
+      return this.finalizeReport(parsedReport, components);
+    });
+  }
+
+  /**
+   * Starts timed monitoring of hardware data.
+   * Emits 'data' event with HardwareReport objects.
+   * Emits 'error' event with MonitorError objects.
+   * When supervised, also emits 'restarting', 'restarted' and 'gaveUp'.
+   * @param intervalMs - Interval in milliseconds for data updates.
+   * @param components - Optional array of components to monitor. Defaults to all (including uptime).
+   * @param options - Optional timed monitoring options, e.g. `{supervise: true}` to restart a crashed or hung CLI.
+   *   Aborting `options.signal` has the same effect as stopTimed(); an already aborted signal starts nothing.
+   */
+  public startTimed(intervalMs: number, components?: ComponentType[], options: TimedOptions = {}): void {
+    if (this.timedActive) {
+      this.emit('error', new Error('Timed monitoring is already active. Call stopTimed() first.'));
+      return;
+    }
+    if (!this.backend.ready) {
+      this.emit('error', this.notReadyError());
+      return;
+    }
+    const signal = options.signal;
+    if (signal?.aborted) {
+      this.log.debug('HardwareMonitor: Timed monitoring not started, signal already aborted.');
+      return;
+    }
 
-      const args = this.buildArgs('once', undefined, components);
-      let output = '';
-      let errorOutput = '';
-      let processKilled = false;
+    const config: TimedConfig = {intervalMs, components, options};
+    const session = this.createTimedSession(config);
+    if (options.record) {
+      new SessionRecorder(options.record, intervalMs, components, err => {
+        this.log.warn(`HardwareMonitor: ${err.message}`);
+        this.emit('error', err);
+      }).attach(session);
+      this.log.debug(`HardwareMonitor: Recording timed session to ${options.record}`);
+    }
 
-      const proc = spawn(this.executablePath, args);
+    this.timedConfig = config;
+    this.activeSession = session;
+    this.onceCoalescer.timedStarted(components);
+    if (signal) {
+      // updateTimed() keeps the options object, so the signal stays bound to reconfigured sessions too
+      const onAbort = () => {
+        if (this.timedConfig?.options !== options) return;
+        this.log.debug('HardwareMonitor: Timed monitoring aborted.');
+        this.stopTimed();
+      };
+      signal.addEventListener('abort', onAbort, {once: true});
+      this.releaseTimedSignal = () => signal.removeEventListener('abort', onAbort);
+    }
+    session.start();
+  }
 
-      const timeoutHandle = setTimeout(() => {
-        processKilled = true;
-        proc.kill();
+  /**
+   * True while timed monitoring or a replay is running, i.e. while startTimed() would fail.
+   */
+  public get timedActive(): boolean {
+    return this.activeSession !== null || this.pendingUpdate !== null || this.pendingReplay !== null;
+  }
+
+  /**
+   * Switches running timed monitoring to a new interval and/or components without stopping the 'data' stream.
+   * The new process runs alongside the current one until it produces its first report; from then on only
+   * its reports are emitted and the old process is stopped, so reports continue without gaps or duplicates.
+   * If the new process fails or times out, the current configuration keeps running.
+   * Units and supervision are kept from startTimed(); a recorded session cannot be reconfigured.
+   * @param update - New interval and/or components; omitted fields keep their current value. `[]` means all.
+   * @returns A Promise resolving once the new configuration is producing data.
+   * @throws MonitorError if the new process fails ('spawn_error'/'process_error') or produces no report within
+   *   `timeoutMs` ('timeout_error'); Error if timed monitoring is not active or is stopped meanwhile.
+   */
+  public updateTimed(update: TimedUpdate): Promise<void> {
+    const current = this.pendingUpdate?.config ?? this.timedConfig;
+    if (!this.activeSession && !this.pendingUpdate) {
+      return Promise.reject(new Error('Timed monitoring is not active. Call startTimed() first.'));
+    }
+    if (!current) {
+      return Promise.reject(new Error('A replay cannot be reconfigured.'));
+    }
+    if (current.options.record) {
+      return Promise.reject(new Error('A recorded timed session cannot be reconfigured. Restart it instead.'));
+    }
+
+    const config: TimedConfig = {
+      intervalMs: update.intervalMs ?? current.intervalMs,
+      components: update.components ?? current.components,
+      options: current.options,
+    };
+    // A newer update replaces a pending one; callers of both are settled together
+    const waiters = this.pendingUpdate ? this.cancelTimedUpdate() : [];
+
+    return new Promise<void>((resolve, reject) => {
+      const session = this.createTimedSession(config);
+      const timeoutMs = update.timeoutMs ?? 10000 + config.intervalMs;
+      const timer = setTimeout(() => {
         const err: MonitorError = new Error(
-          `Hardware monitor 'getDataOnce' timed out after ${timeoutMs}ms.`,
+          `New timed configuration produced no report within ${timeoutMs}ms.`,
         ) as MonitorError;
         err.type = 'timeout_error';
-        reject(err);
+        this.failTimedUpdate(session, err);
       }, timeoutMs);
 
-      proc.stdout.on('data', data => {
-        output += data.toString();
+      this.pendingUpdate = {session, config, timer, waiters: [...waiters, {resolve, reject}], lastError: null};
+      this.log.debug('HardwareMonitor: Starting new timed configuration.', {
+        intervalMs: config.intervalMs,
+        components: config.components,
       });
+      session.start();
+    });
+  }
 
-      proc.stderr.on('data', data => {
-        errorOutput += data.toString();
+  /**
+   * Creates a timed session that emits its reports as 'data' while it is the active session and forwards its
+   * errors and supervisor events.
+   * @param config - Interval, components and options of the session.
+   */
+  private createTimedSession(config: TimedConfig): TimedSession {
+    const {intervalMs, components, options} = config;
+    const supervisor = options.supervise === true ? {} : options.supervise || null;
+    const backend = this.backend;
+    const session = new TimedSession(() => backend.launchTimed(intervalMs, components), intervalMs, supervisor);
+
+    session.on('report', parsedData => {
+      if (this.pendingUpdate?.session === session) this.completeTimedUpdate();
+      if (this.activeSession !== session) return;
+      const report = this.finalizeReport(parsedData, components);
+      this.onceCoalescer.offerTimed(report);
+      this.emit('data', options.units ? convertReport(report, options.units) : report);
+    });
+    session.on('error', (err: MonitorError) => {
+      if (this.pendingUpdate?.session === session) this.pendingUpdate.lastError = err;
+      this.emit('error', err);
+    });
+    session.on('restarting', (event: RestartingEvent) => {
+      this.log.warn(`HardwareMonitor: CLI ${event.reason}, restarting in ${event.delayMs}ms (#${event.attempt}).`, {
+        exitCode: event.exitCode,
       });
+      this.emit('restarting', event);
+    });
+    session.on('restarted', (event: RestartedEvent) => {
+      this.log.debug(`HardwareMonitor: CLI restarted (#${event.attempt}).`, {pid: event.pid});
+      this.emit('restarted', event);
+    });
+    session.on('gaveUp', (event: GaveUpEvent) => {
+      this.log.error(`HardwareMonitor: Giving up after ${event.attempts} restarts (${event.reason}).`);
+      this.emit('gaveUp', event);
+    });
+    session.on('exit', () => {
+      if (this.activeSession === session) {
+        this.activeSession = null;
+        this.onceCoalescer.timedStopped();
+      }
+      if (this.pendingUpdate?.session === session) {
+        let err = this.pendingUpdate.lastError;
+        if (!err) {
+          err = new Error('New timed configuration ended before producing a report.') as MonitorError;
+          err.type = 'process_error';
+        }
+        this.failTimedUpdate(session, err);
+      }
+      // The signal belongs to the timed run, which a pending updateTimed() can still continue
+      if (!this.activeSession && !this.pendingUpdate) {
+        this.releaseTimedSignal?.();
+        this.releaseTimedSignal = null;
+      }
+    });
+    return session;
+  }
 
-      proc.on('error', err => {
-        if (processKilled) return;
-        clearTimeout(timeoutHandle);
-        const monitorError: MonitorError = new Error(
-          `Failed to start hardware monitor executable: ${err.message}`,
-        ) as MonitorError;
-        monitorError.type = 'spawn_error';
-        monitorError.rawError = err;
-        reject(monitorError);
-      });
+  /** Makes the pending session the active one, stops the previous session and resolves the update. */
+  private completeTimedUpdate(): void {
+    const pending = this.pendingUpdate!;
+    clearTimeout(pending.timer);
+    this.pendingUpdate = null;
+
+    const previous = this.activeSession;
+    this.activeSession = pending.session;
+    this.timedConfig = pending.config;
+    this.onceCoalescer.timedStarted(pending.config.components);
+    previous?.stop();
+    this.log.debug('HardwareMonitor: Switched to new timed configuration.', {intervalMs: pending.config.intervalMs});
+    pending.waiters.forEach(waiter => waiter.resolve());
+  }
 
-      proc.on('close', code => {
-        if (processKilled) return;
-        clearTimeout(timeoutHandle);
+  /** Stops the pending session and rejects the update; the active session keeps running. */
+  private failTimedUpdate(session: TimedSession, err: Error): void {
+    if (this.pendingUpdate?.session !== session) return;
+    const waiters = this.cancelTimedUpdate();
+    this.log.warn(`HardwareMonitor: Timed configuration not applied: ${err.message}`);
+    waiters.forEach(waiter => waiter.reject(err));
+  }
 
-        if (code !== 0) {
-          const err: MonitorError = new Error(
-            `Hardware monitor executable exited with code ${code}. Stderr: ${errorOutput.trim()}`,
-          ) as MonitorError;
-          err.type = 'process_error';
-          err.stderrData = errorOutput;
-          return reject(err);
-        }
+  /**
+   * Stops the pending session without settling its callers.
+   * @returns The callers still waiting for the update.
+   */
+  private cancelTimedUpdate(): TimedUpdateWaiter[] {
+    const pending = this.pendingUpdate;
+    if (!pending) return [];
+    clearTimeout(pending.timer);
+    this.pendingUpdate = null;
+    pending.session.stop();
+    return pending.waiters;
+  }
 
-        try {
-          const parsedReport: HardwareReport = JSON.parse(output);
-          let finalReport: HardwareReport;
-
-          const cliComponentsRequested = components?.filter(comp => comp !== 'uptime');
-
-          if (!cliComponentsRequested || cliComponentsRequested.length === 0) {
-            finalReport = {
-              Timestamp: parsedReport.Timestamp || new Date().toISOString(),
-              CPU: parsedReport.CPU || [],
-              GPU: parsedReport.GPU || [],
-              Memory: parsedReport.Memory || [],
-              Motherboard: parsedReport.Motherboard || [],
-              Storage: parsedReport.Storage || [],
-              Network: parsedReport.Network || [],
-              Battery: parsedReport.Battery || [],
-              Controller: parsedReport.Controller || [],
-              Psu: parsedReport.Psu || [],
-            };
-          } else {
-            finalReport = parsedReport;
-          }
-
-          this.addUptimeDataIfNeeded(finalReport, components);
-          resolve(finalReport);
-        } catch (e: any) {
-          const err: MonitorError = new Error('Failed to parse JSON output from hardware monitor.') as MonitorError;
-          err.type = 'json_parse_error';
-          err.rawError = e;
-          err.stderrData = output;
-          reject(err);
-        }
+  /**
+   * Replays a recording made with `startTimed(..., {record})` as if the CLI were running.
+   * The recorded output goes through the same parsing as live data and is emitted as 'data' and 'error'
+   * events. No CLI or checkRequirements() call is needed. Stop early with stopTimed().
+   * @param filePath - Path to the NDJSON recording.
+   * @param options - Playback speed and preferred units.
+   * @returns A Promise resolving once playback has ended, or right away if stopTimed() is called before it starts.
+   * @throws Error if the file is not a valid recording.
+   */
+  public async startReplay(filePath: string, options: StartReplayOptions = {}): Promise<void> {
+    if (this.timedActive) {
+      this.emit('error', new Error('Timed monitoring is already active. Call stopTimed() first.'));
+      return;
+    }
+
+    const reservation = {};
+    this.pendingReplay = reservation;
+    const header = await readRecordingHeader(filePath).catch(error => {
+      if (this.pendingReplay === reservation) this.pendingReplay = null;
+      throw error;
+    });
+    // stopTimed() during the read cancels the replay
+    if (this.pendingReplay !== reservation) return;
+    this.pendingReplay = null;
+    const components = header.components ?? undefined;
+    const session = new TimedSession(() => new ReplayProcess(filePath, options), header.intervalMs);
+
+    session.on('report', parsedData => this.emit('data', this.finalizeReport(parsedData, components, options.units)));
+    session.on('error', err => this.emit('error', err));
+
+    this.timedConfig = null;
+    this.activeSession = session;
+    await new Promise<void>(resolve => {
+      session.on('exit', () => {
+        if (this.activeSession === session) this.activeSession = null;
+        resolve();
       });
+      session.start();
     });
   }
 
   /**
-   * Starts timed monitoring of hardware data.
-   * Emits 'data' event with HardwareReport objects.
-   * Emits 'error' event with MonitorError objects.
+   * Streams timed reports as an async iterable. Each iteration runs its own CLI process, independent of
+   * startTimed() and of other streams. The process starts with the first `next()` call and is stopped when
+   * the loop exits (break, return or throw). Fatal errors (the CLI failing to start or exiting) are thrown.
    * @param intervalMs - Interval in milliseconds for data updates.
    * @param components - Optional array of components to monitor. Defaults to all (including uptime).
+   * @param options - Optional stream options.
+   * @returns An async iterator of reports.
    */
-  public startTimed(intervalMs: number, components?: ComponentType[]): void {
-    if (this.activeProcess) {
-      this.emit('error', new Error('Timed monitoring is already active. Call stopTimed() first.'));
-      return;
-    }
-    if (!this.executablePath) {
-      const err: MonitorError = new Error('Executable path not set. Call checkRequirements() first.') as MonitorError;
-      err.type = 'spawn_error';
-      this.emit('error', err);
-      return;
+  public stream(
+    intervalMs: number,
+    components?: ComponentType[],
+    options: StreamOptions = {},
+  ): AsyncGenerator<HardwareReport, void, undefined> {
+    return this.createReportStream(intervalMs, components, options);
+  }
+
+  /**
+   * Same as stream(), exposed as a Web ReadableStream. Cancelling the stream stops the CLI process.
+   * @param intervalMs - Interval in milliseconds for data updates.
+   * @param components - Optional array of components to monitor. Defaults to all (including uptime).
+   * @param options - Optional stream options.
+   * @returns A ReadableStream of reports.
+   */
+  public readableStream(
+    intervalMs: number,
+    components?: ComponentType[],
+    options: StreamOptions = {},
+  ): ReadableStream<HardwareReport> {
+    const iterator = this.createReportStream(intervalMs, components, options);
+    return new ReadableStream<HardwareReport>(
+      {
+        async pull(controller) {
+          const {value, done} = await iterator.next();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        },
+        async cancel() {
+          await iterator.return();
+        },
+      },
+      {highWaterMark: 0},
+    );
+  }
+
+  private async *createReportStream(
+    intervalMs: number,
+    components: ComponentType[] | undefined,
+    options: StreamOptions,
+  ): AsyncGenerator<HardwareReport, void, undefined> {
+    if (!this.backend.ready) throw this.notReadyError();
+    const signal = options.signal;
+    throwIfAborted(signal, 'Hardware monitor stream');
+
+    const supervisor = options.supervise === true ? {} : options.supervise || null;
+    const backend = this.backend;
+    const session = new TimedSession(() => backend.launchTimed(intervalMs, components), intervalMs, supervisor);
+    const queue = new ReportQueue<HardwareReport>(options.highWaterMark);
+    let lastError: MonitorError | null = null;
+    let gaveUp: GaveUpEvent | null = null;
+
+    session.on('report', parsedData => queue.push(this.finalizeReport(parsedData, components, options.units)));
+    session.on('error', (err: MonitorError) => {
+      lastError = err;
+      options.onError?.(err);
+    });
+    session.on('gaveUp', (event: GaveUpEvent) => {
+      gaveUp = event;
+    });
+    session.on('exit', (code: number | null) => {
+      if (gaveUp) {
+        const err: MonitorError = new Error(
+          `Hardware monitor stream gave up after ${gaveUp.attempts} restarts (${gaveUp.reason}).`,
+        ) as MonitorError;
+        err.type = 'process_error';
+        err.rawError = lastError;
+        queue.end(err);
+      } else if (code !== 0 && lastError) {
+        queue.end(lastError);
+      } else {
+        queue.end();
+      }
+    });
+
+    const onAbort = () => {
+      queue.end(createAbortError(signal!, 'Hardware monitor stream'));
+      session.stop();
+    };
+    signal?.addEventListener('abort', onAbort, {once: true});
+
+    session.start();
+    try {
+      while (true) {
+        const result = await queue.next();
+        if (result.done) return;
+        yield result.value;
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      session.stop();
     }
+  }
 
-    const args = this.buildArgs('timed', intervalMs, components);
-    this.buffer = '';
-    this.initialMessageSkipped = false;
-
-    this.activeProcess = spawn(this.executablePath, args);
-
-    this.activeProcess.stdout?.on('data', (dataChunk: Buffer) => {
-      this.buffer += dataChunk.toString();
-
-      if (!this.initialMessageSkipped) {
-        const newlineIndex = this.buffer.indexOf('\n');
-        if (newlineIndex !== -1) {
-          const firstLine = this.buffer.substring(0, newlineIndex);
-          if (!firstLine.trim().startsWith('{')) {
-            this.buffer = this.buffer.substring(newlineIndex + 1);
-          }
-          this.initialMessageSkipped = true;
-        } else if (this.buffer.length > 1024 && !this.buffer.includes('{')) {
-          const nextJsonStartIndex = this.buffer.indexOf('{');
-          if (nextJsonStartIndex !== -1) {
-            this.buffer = this.buffer.substring(nextJsonStartIndex);
-          } else {
-            this.buffer = '';
-          }
-          this.initialMessageSkipped = true;
+  /**
+   * Subscribes to timed data with its own components and interval. All subscribers share one CLI process
+   * that covers the union of their components at the fastest requested interval; each subscriber only
+   * receives its components, at its own interval. The process is restarted when subscribers join or leave
+   * with different needs and stopped when the last one unsubscribes. Independent of startTimed() and
+   * stream(); reports are not emitted as 'data'. Errors from the shared process are emitted as 'error'. The shared
+   * process is supervised; if the supervisor gives up, a 'process_error' is emitted.
+   * @param intervalMs - Interval in milliseconds for this subscriber.
+   * @param components - Optional array of components to monitor. Defaults to all (including uptime).
+   * @param listener - Receives each report.
+   * @param options - Optional subscriber options, e.g. preferred units.
+   * @returns A handle to unsubscribe.
+   * @throws MonitorError if checkRequirements() has not been called.
+   */
+  public subscribe(
+    intervalMs: number,
+    components: ComponentType[] | undefined,
+    listener: (report: HardwareReport) => void,
+    options: SubscribeOptions = {},
+  ): Subscription {
+    if (!this.backend.ready) throw this.notReadyError();
+
+    if (!this.subscriptionHub) {
+      const backend = this.backend;
+      const hub = new SubscriptionHub(
+        config =>
+          new TimedSession(() => backend.launchTimed(config.intervalMs, config.components), config.intervalMs, {}),
+        (parsedReport, components) => this.finalizeReport(parsedReport, components),
+      );
+      hub.on('error', err => this.emit('error', err));
+      hub.on('reconfigure', (config: SharedSessionConfig | null) => {
+        if (config) {
+          const components = config.components?.join(',') || 'all';
+          this.log.debug(`HardwareMonitor: Shared process now runs every ${config.intervalMs}ms for ${components}.`);
         } else {
-          return;
+          this.log.debug('HardwareMonitor: Last subscriber left, shared process stopped.');
         }
-      }
+      });
+      this.subscriptionHub = hub;
+    }
+    return this.subscriptionHub.subscribe(intervalMs, components, listener, options);
+  }
 
-      if (!this.initialMessageSkipped) return;
+  /**
+   * Ends every subscription made with subscribe() and stops the shared process.
+   */
+  public unsubscribeAll(): void {
+    this.subscriptionHub?.clear();
+  }
 
-      const MAX_BUFFER_SIZE = 10 * 1024 * 1024; // 10MB safety limit
+  /**
+   * The history store enabled with enableHistory(), or null if history is disabled.
+   */
+  public get history(): SensorHistory | null {
+    return this.historyStore;
+  }
 
-      while (this.buffer.length > 0) {
-        if (this.buffer.length > MAX_BUFFER_SIZE) {
-          this.buffer = '';
-          const err: MonitorError = new Error(
-            'Buffer overflow: exceeded maximum buffer size without a valid JSON object. Resetting buffer.',
-          ) as MonitorError;
-          err.type = 'json_parse_error';
-          this.emit('error', err);
-          break;
-        }
+  /**
+   * Starts recording every 'data' report into a bounded per-sensor history.
+   * Calling it again replaces the existing store.
+   * @param options - Window size by sample count and/or age.
+   * @returns The history store to query for samples and statistics.
+   */
+  public enableHistory(options?: HistoryOptions): SensorHistory {
+    this.disableHistory();
+    this.historyStore = new SensorHistory(options);
+    this.on('data', this.recordHistory);
+    return this.historyStore;
+  }
 
-        if (!this.buffer.startsWith('{')) {
-          const nextJsonStartIndex = this.buffer.indexOf('{');
-          if (nextJsonStartIndex !== -1) {
-            this.buffer = this.buffer.substring(nextJsonStartIndex);
-          } else {
-            this.buffer = '';
-            break;
-          }
-        }
-        if (!this.buffer.startsWith('{')) break;
-
-        let balance = 0;
-        let jsonEndIndex = -1;
-        let inString = false;
-        let escapeNext = false;
-
-        for (let i = 0; i < this.buffer.length; i++) {
-          const char = this.buffer[i];
-          if (escapeNext) {
-            escapeNext = false;
-            continue;
-          }
-          if (char === '\\') {
-            escapeNext = true;
-            continue;
-          }
-          if (char === '"') inString = !inString;
-
-          if (!inString) {
-            if (char === '{') balance++;
-            else if (char === '}') {
-              balance--;
-              if (balance === 0 && i > 0) {
-                jsonEndIndex = i;
-                break;
-              } else if (balance < 0) {
-                this.buffer = '';
-                this.initialMessageSkipped = false;
-                const err: MonitorError = new Error(
-                  'JSON braces unbalanced (too many closing). Resetting buffer.',
-                ) as MonitorError;
-                err.type = 'json_parse_error';
-                this.emit('error', err);
-                return;
-              }
-            }
-          }
-        }
+  /**
+   * Stops recording history and drops all recorded samples.
+   */
+  public disableHistory(): void {
+    if (!this.historyStore) return;
+    this.off('data', this.recordHistory);
+    this.historyStore.clear();
+    this.historyStore = null;
+  }
 
-        if (jsonEndIndex !== -1 && balance === 0) {
-          const reportString = this.buffer.substring(0, jsonEndIndex + 1);
-          let consumedLength = jsonEndIndex + 1;
-
-          if (
-            this.buffer.length > consumedLength &&
-            this.buffer[consumedLength] === '\r' &&
-            this.buffer.length > consumedLength + 1 &&
-            this.buffer[consumedLength + 1] === '\n'
-          ) {
-            consumedLength += 2;
-          } else if (this.buffer.length > consumedLength && this.buffer[consumedLength] === '\n') {
-            consumedLength += 1;
-          }
-
-          try {
-            const parsedData: any = JSON.parse(reportString);
-
-            if (typeof parsedData.Timestamp === 'string') {
-              let finalReport: HardwareReport;
-              const cliComponentsRequested = components?.filter(comp => comp !== 'uptime');
-
-              if (!cliComponentsRequested || cliComponentsRequested.length === 0) {
-                finalReport = {
-                  Timestamp: parsedData.Timestamp,
-                  CPU: parsedData.CPU || [],
-                  GPU: parsedData.GPU || [],
-                  Memory: parsedData.Memory || [],
-                  Motherboard: parsedData.Motherboard || [],
-                  Storage: parsedData.Storage || [],
-                  Network: parsedData.Network || [],
-                  Battery: parsedData.Battery || [],
-                  Controller: parsedData.Controller || [],
-                  Psu: parsedData.Psu || [],
-                };
-              } else {
-                finalReport = parsedData as HardwareReport;
-              }
-
-              this.addUptimeDataIfNeeded(finalReport, components);
-              this.emit('data', finalReport);
-            } else {
-              const err: MonitorError = new Error(
-                `Parsed JSON is not a valid HardwareReport. Snippet: ${reportString.substring(0, 100)}`,
-              ) as MonitorError;
-              err.type = 'json_parse_error';
-              err.stderrData = reportString;
-              this.emit('error', err);
-            }
-            this.buffer = this.buffer.substring(consumedLength);
-          } catch (e: any) {
-            const err: MonitorError = new Error(
-              `Failed to parse JSON (timed). Snippet: ${reportString.substring(0, 100)}`,
-            ) as MonitorError;
-            err.type = 'json_parse_error';
-            err.rawError = e;
-            err.stderrData = reportString;
-            this.emit('error', err);
-            this.buffer = this.buffer.substring(consumedLength);
-            break;
-          }
-        } else {
-          break;
-        }
-      }
-    });
+  /**
+   * The alert engine enabled with enableAlerts(), or null if alerts are disabled.
+   */
+  public get alerts(): AlertEngine | null {
+    return this.alertEngine;
+  }
 
-    this.activeProcess.stderr?.on('data', data => {
-      const errorMessage = data.toString().trim();
-      if (errorMessage) {
-        const err: MonitorError = new Error(`Error from hardware monitor process: ${errorMessage}`) as MonitorError;
-        err.type = 'process_error';
-        err.stderrData = errorMessage;
-        this.emit('error', err);
-      }
-    });
+  /**
+   * Starts evaluating threshold rules against every 'data' report.
+   * Emits 'alert' with an AlertEvent and 'alertCleared' with an AlertClearedEvent.
+   * Calling it again replaces the existing engine.
+   * @param rules - Initial rules, as an array or the JSON produced by `JSON.stringify(monitor.alerts)`.
+   * @returns The engine, for adding and removing rules at runtime.
+   */
+  public enableAlerts(rules: AlertRule[] | string = []): AlertEngine {
+    this.disableAlerts();
+    const engine = AlertEngine.fromJSON(rules);
+    engine.on('alert', this.forwardAlert);
+    engine.on('alertCleared', this.forwardAlertCleared);
+    this.on('data', this.evaluateAlerts);
+    this.alertEngine = engine;
+    return engine;
+  }
 
-    this.activeProcess.on('error', err => {
-      const monitorError: MonitorError = new Error(
-        `Failed to start hardware monitor executable (timed): ${err.message}`,
-      ) as MonitorError;
-      monitorError.type = 'spawn_error';
-      monitorError.rawError = err;
-      this.emit('error', monitorError);
-      this.activeProcess = null;
-    });
+  /**
+   * Stops evaluating alert rules and discards the engine.
+   */
+  public disableAlerts(): void {
+    if (!this.alertEngine) return;
+    this.off('data', this.evaluateAlerts);
+    this.alertEngine.off('alert', this.forwardAlert);
+    this.alertEngine.off('alertCleared', this.forwardAlertCleared);
+    this.alertEngine = null;
+  }
 
-    this.activeProcess.on('close', code => {
-      if (this.activeProcess && !this.activeProcess.killed && code !== 0) {
-        const message = `Hardware monitor executable (timed) exited unexpectedly with code ${code}.`;
-        const err: MonitorError = new Error(message) as MonitorError;
-        err.type = 'process_error';
-        this.emit('error', err);
-      }
-      this.activeProcess = null;
-      this.buffer = '';
-      this.initialMessageSkipped = false;
-    });
+  /**
+   * Starts comparing consecutive 'data' reports and emits 'change' with a ReportDiff when anything changed.
+   * The first report after enabling is emitted with every sensor and hardware item as added.
+   * Calling it again resets the tracked state with the new options.
+   * @param options - Per-sensor-type dead-bands.
+   * @returns The tracker, e.g. to reset() it when a renderer reconnects.
+   */
+  public enableChangeEvents(options?: DiffOptions): ChangeTracker {
+    this.disableChangeEvents();
+    this.changeTracker = new ChangeTracker(options);
+    this.on('data', this.trackChanges);
+    return this.changeTracker;
+  }
+
+  /**
+   * Stops emitting 'change' events.
+   */
+  public disableChangeEvents(): void {
+    if (!this.changeTracker) return;
+    this.off('data', this.trackChanges);
+    this.changeTracker = null;
+  }
+
+  /**
+   * Retrieves a vendor-agnostic summary of well-known metrics (CPU load and package temperature, GPU load and
+   * memory, RAM, disk activity, network rates and battery level). Metrics without a matching sensor are null.
+   * @param timeoutMs - Optional timeout in milliseconds. Defaults to 10000ms.
+   * @returns A Promise resolving to the HardwareSummary.
+   */
+  public async getSummary(timeoutMs: number = 10000): Promise<HardwareSummary> {
+    const report = await this.getDataOnce(SUMMARY_COMPONENTS, timeoutMs);
+    return summarizeReport(report);
   }
 
   /**
-   * Stops the currently active timed monitoring process.
+   * Starts emitting 'summary' with a HardwareSummary for every 'data' report.
+   * The timed components should include the devices of interest; missing ones summarise to null or empty arrays.
+   */
+  public enableSummaryEvents(): void {
+    if (this.summaryEvents) return;
+    this.summaryEvents = true;
+    this.on('data', this.emitSummary);
+  }
+
+  /**
+   * Stops emitting 'summary' events.
+   */
+  public disableSummaryEvents(): void {
+    if (!this.summaryEvents) return;
+    this.summaryEvents = false;
+    this.off('data', this.emitSummary);
+  }
+
+  /**
+   * Stops the currently active timed monitoring process, any pending updateTimed() and a startReplay() that is
+   * still reading its recording.
+   * startTimed() can be called again right away; the old process is no longer reported on while it exits.
    */
   public stopTimed(): void {
-    if (this.activeProcess) {
-      this.activeProcess.kill();
-      this.log('debug', 'HardwareMonitor: Timed monitoring stop signal sent.');
+    this.releaseTimedSignal?.();
+    this.releaseTimedSignal = null;
+    this.pendingReplay = null;
+    const waiters = this.cancelTimedUpdate();
+    if (waiters.length > 0) {
+      const err = new Error('Timed monitoring was stopped before the new configuration produced a report.');
+      waiters.forEach(waiter => waiter.reject(err));
+    }
+    if (this.activeSession) {
+      this.activeSession.stop();
+      this.activeSession = null;
+      this.onceCoalescer.timedStopped();
+      this.log.debug('HardwareMonitor: Timed monitoring stop signal sent.');
     } else {
-      this.log('debug', 'HardwareMonitor: No active timed monitoring process to stop.');
+      this.log.debug('HardwareMonitor: No active timed monitoring process to stop.');
     }
   }
 }
@@ -0,0 +1,192 @@
+import {randomUUID} from 'node:crypto';
+import fsPromises from 'node:fs/promises';
+import os from 'node:os';
+import {setTimeout as sleep} from 'node:timers/promises';
+import type {LogLevel} from './index.js';
+import {MonitorLogger, resolveLogger, withLogContext} from './logger.js';
+
+export type InstallLockOptions = {
+  /** How long to wait for another process to finish before giving up. Defaults to 300000ms. */
+  timeoutMs?: number;
+  /** A lock not refreshed for this long is considered abandoned. Defaults to 60000ms. */
+  staleMs?: number;
+  /** Delay between attempts to take a held lock. Defaults to 250ms. */
+  pollMs?: number;
+  /** Stops waiting for a held lock. */
+  signal?: AbortSignal;
+};
+
+/** Contents of the lock file, used to detect locks left behind by crashed processes. */
+type LockInfo = {
+  pid: number;
+  hostname: string;
+  createdAt: string;
+};
+
+/**
+ * Whether a process with the given pid is still running on this machine.
+ * @param pid The process id.
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    // EPERM means the process exists but belongs to another user
+    return error.code === 'EPERM';
+  }
+}
+
+/**
+ * Reads the pid of the process holding a lock, if the lock file is complete.
+ * @param lockPath Path to the lock file.
+ */
+async function readHolderPid(lockPath: string): Promise<number | undefined> {
+  try {
+    return (JSON.parse(await fsPromises.readFile(lockPath, 'utf8')) as LockInfo).pid;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Identity of a lock file at the time it was found to be stale. */
+type LockSnapshot = {ino: number; mtimeMs: number};
+
+/**
+ * Checks whether an existing lock was abandoned: its owner on this host is gone, or it was not refreshed in time.
+ * @param lockPath Path to the lock file.
+ * @param staleMs Age after which an unrefreshed lock is stale.
+ * @returns The identity of the stale lock file, or null if the lock is held or gone.
+ */
+async function findStaleLock(lockPath: string, staleMs: number): Promise<LockSnapshot | null> {
+  try {
+    const stats = await fsPromises.stat(lockPath);
+    const snapshot = {ino: stats.ino, mtimeMs: stats.mtimeMs};
+    if (Date.now() - stats.mtimeMs > staleMs) return snapshot;
+
+    const info = JSON.parse(await fsPromises.readFile(lockPath, 'utf8')) as LockInfo;
+    return info.hostname === os.hostname() && !isProcessAlive(info.pid) ? snapshot : null;
+  } catch {
+    // Vanished, or still being written by its owner; an abandoned empty lock goes stale by age
+    return null;
+  }
+}
+
+/**
+ * Removes a stale lock without racing other waiters. The lock is moved aside atomically and only deleted if it is
+ * still the file found stale; a lock another waiter created in the meantime is put back.
+ * @param lockPath Path to the lock file.
+ * @param stale Identity of the lock file found stale.
+ * @returns True if the stale lock was removed.
+ */
+async function removeStaleLock(lockPath: string, stale: LockSnapshot): Promise<boolean> {
+  const asidePath = `${lockPath}.${randomUUID()}.stale`;
+  try {
+    await fsPromises.rename(lockPath, asidePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return false;
+    throw error;
+  }
+
+  try {
+    const stats = await fsPromises.stat(asidePath);
+    if (stats.ino === stale.ino && stats.mtimeMs === stale.mtimeMs) return true;
+    // Taken over or refreshed since it was checked; hand it back unless a new lock already exists
+    await fsPromises.link(asidePath, lockPath).catch(() => {});
+    return false;
+  } finally {
+    await fsPromises.rm(asidePath, {force: true});
+  }
+}
+
+/**
+ * Cross-process lock held by a lock file created with O_EXCL. The holder refreshes its modification time,
+ * so waiting processes can tell an abandoned lock from a long download.
+ */
+export class InstallLock {
+  public readonly lockPath: string;
+  private readonly heartbeat: NodeJS.Timeout;
+  private released: boolean = false;
+
+  private constructor(lockPath: string, staleMs: number) {
+    this.lockPath = lockPath;
+    this.heartbeat = setInterval(
+      () => {
+        const now = new Date();
+        fsPromises.utimes(this.lockPath, now, now).catch(() => {});
+      },
+      Math.max(staleMs / 4, 100),
+    );
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Takes the lock, waiting for other processes to release it and removing stale locks.
+   * @param lockPath Path to the lock file.
+   * @param logger The log level for console output, or a logger.
+   * @param options Timeout, staleness, polling settings and abort signal.
+   * @returns The held lock.
+   * @throws Error if the lock could not be taken within the timeout, or the signal's reason once aborted.
+   */
+  public static async acquire(
+    lockPath: string,
+    logger: LogLevel | MonitorLogger,
+    options: InstallLockOptions = {},
+  ): Promise<InstallLock> {
+    const log = withLogContext(resolveLogger(logger), {component: 'install-lock'});
+    const timeoutMs = options.timeoutMs ?? 300000;
+    const staleMs = options.staleMs ?? 60000;
+    const pollMs = options.pollMs ?? 250;
+    const startedAt = Date.now();
+    let announced = false;
+
+    while (true) {
+      options.signal?.throwIfAborted();
+      try {
+        const handle = await fsPromises.open(lockPath, 'wx');
+        const info: LockInfo = {pid: process.pid, hostname: os.hostname(), createdAt: new Date().toISOString()};
+        await handle.writeFile(JSON.stringify(info));
+        await handle.close();
+        log.debug(`Acquired install lock ${lockPath}`, {pid: process.pid, durationMs: Date.now() - startedAt});
+        return new InstallLock(lockPath, staleMs);
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+      }
+
+      const stale = await findStaleLock(lockPath, staleMs);
+      if (stale) {
+        if (await removeStaleLock(lockPath, stale)) log.warn(`Removed stale install lock ${lockPath}`);
+        continue;
+      }
+      if (Date.now() - startedAt > timeoutMs) {
+        throw new Error(`Timed out after ${timeoutMs}ms waiting for install lock ${lockPath}.`);
+      }
+      if (!announced) {
+        announced = true;
+        log.info('Another process is installing the CLI. Waiting for it to finish...', {
+          pid: await readHolderPid(lockPath),
+        });
+      }
+      // The timer rejects with a generic AbortError; callers get the signal's reason instead
+      await sleep(pollMs, undefined, {signal: options.signal}).catch(error => {
+        options.signal?.throwIfAborted();
+        throw error;
+      });
+    }
+  }
+
+  /** Releases the lock. Safe to call more than once. */
+  public async release(): Promise<void> {
+    if (this.released) return;
+    this.released = true;
+    clearInterval(this.heartbeat);
+    try {
+      // Don't remove a lock another process took over after ours was considered stale
+      const info = JSON.parse(await fsPromises.readFile(this.lockPath, 'utf8')) as LockInfo;
+      if (info.pid !== process.pid || info.hostname !== os.hostname()) return;
+    } catch {
+      return;
+    }
+    await fsPromises.rm(this.lockPath, {force: true});
+  }
+}
@@ -0,0 +1,233 @@
+import {StringDecoder} from 'node:string_decoder';
+import {Transform} from 'node:stream';
+import {TransformStream} from 'node:stream/web';
+import type {MonitorError} from './index.js';
+
+export type JsonFramerOptions = {
+  /** Objects longer than this many characters are skipped with a 'json_parse_error'. Defaults to 10 MiB. */
+  maxObjectSize?: number;
+  /** Receives objects that are too large or not valid JSON. Framing continues with the next object. */
+  onError?: (error: MonitorError) => void;
+};
+
+/** A complete top-level JSON object found in the input. */
+export type JsonFrame = {
+  /** The parsed object. */
+  value: any;
+  /** The object's JSON text as it appeared in the input. */
+  text: string;
+};
+
+/**
+ * Where the scanner is. Outside objects only lines starting with '{' (after optional whitespace) are read;
+ * any other line is banner or log output and skipped up to its line break, including braces it contains.
+ */
+type ScanMode = 'lineStart' | 'skipLine' | 'object' | 'afterObject';
+
+const DEFAULT_MAX_OBJECT_SIZE = 10 * 1024 * 1024;
+
+function isBlank(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\r';
+}
+
+function framingError(message: string, text?: string, cause?: unknown): MonitorError {
+  const err: MonitorError = new Error(message) as MonitorError;
+  err.type = 'json_parse_error';
+  if (cause !== undefined) err.rawError = cause;
+  if (text !== undefined) err.stderrData = text;
+  return err;
+}
+
+/**
+ * Incremental framer for a stream of JSON objects, e.g. CLI output with one (possibly pretty-printed)
+ * report per interval. Each chunk is scanned once; scan state carries over between chunks, so framing
+ * is linear in the input size.
+ *
+ * Banner policy: an object must start a line (leading whitespace allowed) or directly follow the previous
+ * object. Every other line outside an object is skipped.
+ */
+export class JsonFramer {
+  private readonly maxObjectSize: number;
+  private readonly onError: (error: MonitorError) => void;
+  private decoder = new StringDecoder('utf8');
+  private mode: ScanMode = 'lineStart';
+  private depth: number = 0;
+  private inString: boolean = false;
+  private escapeNext: boolean = false;
+  /** Text of the current object, one piece per chunk. */
+  private pieces: string[] = [];
+  private objectSize: number = 0;
+  /** True while skipping the rest of an oversized object. */
+  private discarding: boolean = false;
+
+  constructor(options: JsonFramerOptions = {}) {
+    this.maxObjectSize = options.maxObjectSize ?? DEFAULT_MAX_OBJECT_SIZE;
+    this.onError = options.onError ?? (() => {});
+  }
+
+  /**
+   * Scans a chunk of input.
+   * @param chunk Text, or UTF-8 bytes; characters split across chunks are decoded correctly.
+   * @returns The objects completed by this chunk, in order.
+   */
+  public push(chunk: string | Uint8Array): JsonFrame[] {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.write(Buffer.from(chunk));
+    const frames: JsonFrame[] = [];
+    let objectStart = this.mode === 'object' ? 0 : -1;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      switch (this.mode) {
+        case 'lineStart':
+        case 'afterObject':
+          if (char === '{') {
+            this.startObject();
+            objectStart = i;
+          } else if (char === '\n') {
+            this.mode = 'lineStart';
+          } else if (!isBlank(char)) {
+            this.mode = 'skipLine';
+          }
+          break;
+        case 'skipLine':
+          if (char === '\n') this.mode = 'lineStart';
+          break;
+        case 'object':
+          if (!this.scanObjectChar(char)) break;
+          this.appendPiece(text.substring(objectStart, i + 1));
+          objectStart = -1;
+          this.finishObject(frames);
+          break;
+      }
+    }
+
+    if (this.mode === 'object' && objectStart !== -1) this.appendPiece(text.substring(objectStart));
+    return frames;
+  }
+
+  /**
+   * Signals the end of the input. An unfinished object is reported through `onError` and dropped.
+   * @returns Objects completed by bytes still held by the decoder.
+   */
+  public end(): JsonFrame[] {
+    const rest = this.decoder.end();
+    const frames = rest ? this.push(rest) : [];
+    if (this.mode === 'object') {
+      const text = this.discarding ? undefined : this.pieces.join('');
+      this.onError(framingError('Output ended inside a JSON object.', text));
+    }
+    this.reset();
+    return frames;
+  }
+
+  /** Drops all state, e.g. before reading the output of a new process. */
+  public reset(): void {
+    this.decoder = new StringDecoder('utf8');
+    this.mode = 'lineStart';
+    this.clearObject();
+  }
+
+  private startObject(): void {
+    this.mode = 'object';
+    this.depth = 1;
+    this.inString = false;
+    this.escapeNext = false;
+  }
+
+  /**
+   * Advances the object scan by one character.
+   * @returns True if the character closed the top-level object.
+   */
+  private scanObjectChar(char: string): boolean {
+    if (this.escapeNext) {
+      this.escapeNext = false;
+      return false;
+    }
+    if (this.inString) {
+      if (char === '\\') this.escapeNext = true;
+      else if (char === '"') this.inString = false;
+      return false;
+    }
+    if (char === '"') this.inString = true;
+    else if (char === '{') this.depth++;
+    else if (char === '}') return --this.depth === 0;
+    return false;
+  }
+
+  private appendPiece(piece: string): void {
+    if (this.discarding) return;
+    this.objectSize += piece.length;
+    if (this.objectSize > this.maxObjectSize) {
+      // Keep scanning to the end of the object without holding on to its text
+      this.discarding = true;
+      this.pieces = [];
+      this.onError(
+        framingError(`JSON object exceeded the maximum size of ${this.maxObjectSize} characters. Skipping it.`),
+      );
+      return;
+    }
+    this.pieces.push(piece);
+  }
+
+  private finishObject(frames: JsonFrame[]): void {
+    this.mode = 'afterObject';
+    if (this.discarding) {
+      this.clearObject();
+      return;
+    }
+
+    const text = this.pieces.join('');
+    this.clearObject();
+    try {
+      frames.push({value: JSON.parse(text), text});
+    } catch (e: any) {
+      this.onError(framingError(`Failed to parse JSON. Snippet: ${text.substring(0, 100)}`, text, e));
+    }
+  }
+
+  private clearObject(): void {
+    this.depth = 0;
+    this.inString = false;
+    this.escapeNext = false;
+    this.pieces = [];
+    this.objectSize = 0;
+    this.discarding = false;
+  }
+}
+
+/**
+ * Node stream version of JsonFramer: write text or bytes, read JsonFrame objects.
+ * @param options Framer options; errors go to `onError` and do not end the stream.
+ */
+export function createJsonFramerTransform(options: JsonFramerOptions = {}): Transform {
+  const framer = new JsonFramer(options);
+  return new Transform({
+    readableObjectMode: true,
+    transform(chunk: Buffer | string, _encoding, callback) {
+      for (const frame of framer.push(chunk)) this.push(frame);
+      callback();
+    },
+    flush(callback) {
+      for (const frame of framer.end()) this.push(frame);
+      callback();
+    },
+  });
+}
+
+/**
+ * Web stream version of JsonFramer, e.g. for `response.body.pipeThrough(createJsonFramerStream())`.
+ * @param options Framer options; errors go to `onError` and do not end the stream.
+ */
+export function createJsonFramerStream(
+  options: JsonFramerOptions = {},
+): TransformStream<string | Uint8Array, JsonFrame> {
+  const framer = new JsonFramer(options);
+  return new TransformStream({
+    transform(chunk, controller) {
+      for (const frame of framer.push(chunk)) controller.enqueue(frame);
+    },
+    flush(controller) {
+      for (const frame of framer.end()) controller.enqueue(frame);
+    },
+  });
+}
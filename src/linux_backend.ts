@@ -0,0 +1,578 @@
+import {EventEmitter} from 'node:events';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+import {PassThrough} from 'node:stream';
+import type {ComponentType, HardwareItemInfo, HardwareReport, MonitorError, SensorInfo} from './index.js';
+import {backendComponents, MonitorBackend} from './backend.js';
+import type {TimedProcess} from './timed_session.js';
+import {createAbortError, throwIfAborted} from './abort.js';
+
+export type LinuxBackendOptions = {
+  /** Filesystem root that contains `proc/` and `sys/`. Defaults to '/'. Point it at a fixture directory for tests. */
+  root?: string;
+  /** Delay between the two samples getDataOnce takes to compute loads and rates. Defaults to 250ms. */
+  sampleDelayMs?: number;
+};
+
+type CpuTimes = {idle: number; total: number};
+type Counter = {value: number; time: number};
+
+type HwmonChip = {
+  name: string;
+  /** Resolved path of the chip's `device` link, used to match it to block devices. */
+  devicePath: string | null;
+  sensors: SensorInfo[];
+};
+
+const CPU_CHIPS = ['coretemp', 'k10temp', 'zenpower', 'cpu_thermal', 'soc_thermal'];
+const GPU_CHIPS: Record<string, {name: string; hardwareType: string}> = {
+  amdgpu: {name: 'AMD Radeon GPU', hardwareType: 'GpuAmd'},
+  radeon: {name: 'AMD Radeon GPU', hardwareType: 'GpuAmd'},
+  nouveau: {name: 'NVIDIA GPU', hardwareType: 'GpuNvidia'},
+  i915: {name: 'Intel GPU', hardwareType: 'GpuIntel'},
+  xe: {name: 'Intel GPU', hardwareType: 'GpuIntel'},
+};
+const STORAGE_CHIPS = ['nvme', 'drivetemp'];
+const IGNORED_BLOCK_DEVICES = /^(loop|ram|zram|dm-|md|sr|fd|nbd)/;
+const SECTOR_SIZE = 512;
+const GIB = 1024 ** 3;
+
+// hwmon attribute prefix -> sensor type, unit, divisor and default name
+const HWMON_ATTRIBUTES: Record<string, {type: string; unit: string; divisor: number; label: string}> = {
+  temp: {type: 'Temperature', unit: '°C', divisor: 1000, label: 'Temperature'},
+  fan: {type: 'Fan', unit: 'RPM', divisor: 1, label: 'Fan'},
+  in: {type: 'Voltage', unit: 'V', divisor: 1000, label: 'Voltage'},
+  curr: {type: 'Current', unit: 'A', divisor: 1000, label: 'Current'},
+  power: {type: 'Power', unit: 'W', divisor: 1e6, label: 'Power'},
+  freq: {type: 'Clock', unit: 'MHz', divisor: 1e6, label: 'Clock'},
+};
+
+async function readText(filePath: string): Promise<string | null> {
+  try {
+    return (await fsPromises.readFile(filePath, 'utf8')).trim();
+  } catch {
+    return null;
+  }
+}
+
+async function readNumber(filePath: string): Promise<number | null> {
+  const text = await readText(filePath);
+  if (text === null || text === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : null;
+}
+
+async function listDir(dirPath: string): Promise<string[]> {
+  try {
+    return (await fsPromises.readdir(dirPath)).sort((a, b) => a.localeCompare(b, undefined, {numeric: true}));
+  } catch {
+    return [];
+  }
+}
+
+async function resolveLink(linkPath: string): Promise<string | null> {
+  try {
+    return await fsPromises.realpath(linkPath);
+  } catch {
+    return null;
+  }
+}
+
+function sensor(name: string, value: number | null, type: string, unit: string, identifier: string): SensorInfo {
+  return {Name: name, Value: value, Type: type, Unit: unit, Identifier: identifier};
+}
+
+function wants(components: ComponentType[], component: string): boolean {
+  return components.length === 0 || components.includes('all') || components.includes(component);
+}
+
+/**
+ * Reads procfs/sysfs and keeps the previous counters needed for loads and rates.
+ */
+class LinuxCollector {
+  private readonly root: string;
+  private cpuTimes: Map<string, CpuTimes> | null = null;
+  private readonly counters = new Map<string, Counter>();
+
+  constructor(root: string) {
+    this.root = root;
+  }
+
+  public async collect(components: ComponentType[]): Promise<HardwareReport> {
+    const chips = await this.readHwmonChips();
+    const used = new Set<HwmonChip>();
+    const report: HardwareReport = {Timestamp: new Date().toISOString()} as HardwareReport;
+
+    if (wants(components, 'cpu')) report.CPU = await this.readCpu(chips, used);
+    if (wants(components, 'gpu')) report.GPU = await this.readGpus(chips, used);
+    if (wants(components, 'memory')) report.Memory = await this.readMemory();
+    if (wants(components, 'storage')) report.Storage = await this.readStorage(chips, used);
+    if (wants(components, 'network')) report.Network = await this.readNetwork();
+    if (wants(components, 'battery')) report.Battery = await this.readBatteries();
+    if (wants(components, 'motherboard')) report.Motherboard = await this.readMotherboard(chips, used);
+    if (wants(components, 'controller')) report.Controller = [];
+    if (wants(components, 'psu')) report.Psu = [];
+    return report;
+  }
+
+  private p(...segments: string[]): string {
+    return path.join(this.root, ...segments);
+  }
+
+  /**
+   * Returns the per-second rate of a monotonically increasing counter, or null on the first sample.
+   */
+  private rate(key: string, value: number | null, now: number): number | null {
+    if (value === null) return null;
+    const previous = this.counters.get(key);
+    this.counters.set(key, {value, time: now});
+    if (!previous || now <= previous.time || value < previous.value) return null;
+    return (value - previous.value) / ((now - previous.time) / 1000);
+  }
+
+  private async readHwmonChips(): Promise<HwmonChip[]> {
+    const baseDir = this.p('sys', 'class', 'hwmon');
+    const chips: HwmonChip[] = [];
+    const ordinals = new Map<string, number>();
+
+    for (const entry of await listDir(baseDir)) {
+      const chipDir = path.join(baseDir, entry);
+      const name = (await readText(path.join(chipDir, 'name'))) ?? entry;
+      const ordinal = ordinals.get(name) ?? 0;
+      ordinals.set(name, ordinal + 1);
+
+      const sensors: SensorInfo[] = [];
+      const seen = new Set<string>();
+      const files = await listDir(chipDir);
+      for (const file of files) {
+        const match = /^(temp|fan|in|curr|power|freq)(\d+)_(input|average)$/.exec(file);
+        if (!match) continue;
+        const [, prefix, index] = match;
+        const key = `${prefix}${index}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const attribute = HWMON_ATTRIBUTES[prefix];
+        const raw = await readNumber(path.join(chipDir, file));
+        const label = (await readText(path.join(chipDir, `${key}_label`))) || `${attribute.label} #${index}`;
+        sensors.push(
+          sensor(
+            label,
+            raw === null ? null : raw / attribute.divisor,
+            attribute.type,
+            attribute.unit,
+            `/${name}/${ordinal}/${attribute.type.toLowerCase()}/${index}`,
+          ),
+        );
+      }
+
+      chips.push({name, devicePath: await resolveLink(path.join(chipDir, 'device')), sensors});
+    }
+    return chips;
+  }
+
+  private async readCpuTimes(): Promise<Map<string, CpuTimes>> {
+    const stat = (await readText(this.p('proc', 'stat'))) ?? '';
+    const times = new Map<string, CpuTimes>();
+    for (const line of stat.split('\n')) {
+      if (!line.startsWith('cpu')) continue;
+      const [label, ...fields] = line.trim().split(/\s+/);
+      const values = fields.slice(0, 8).map(Number);
+      const total = values.reduce((sum, value) => sum + (Number.isFinite(value) ? value : 0), 0);
+      times.set(label, {idle: (values[3] || 0) + (values[4] || 0), total});
+    }
+    return times;
+  }
+
+  private async readCpu(chips: HwmonChip[], used: Set<HwmonChip>): Promise<HardwareItemInfo[]> {
+    const cpuInfo = (await readText(this.p('proc', 'cpuinfo'))) ?? '';
+    const modelName = /^model name\s*:\s*(.+)$/m.exec(cpuInfo)?.[1]?.trim() ?? 'CPU';
+    const now = Date.now();
+
+    const times = await this.readCpuTimes();
+    const previous = this.cpuTimes;
+    this.cpuTimes = times;
+    const load = (label: string): number | null => {
+      const current = times.get(label);
+      const before = previous?.get(label);
+      if (!current || !before || current.total <= before.total) return null;
+      const busy = 1 - (current.idle - before.idle) / (current.total - before.total);
+      return Math.min(100, Math.max(0, busy * 100));
+    };
+
+    const sensors: SensorInfo[] = [sensor('CPU Total', load('cpu'), 'Load', '%', '/linux/cpu/0/load/0')];
+    const cores = [...times.keys()].filter(label => label !== 'cpu').map(label => Number(label.slice(3)));
+    for (const core of cores) {
+      sensors.push(sensor(`CPU Core #${core + 1}`, load(`cpu${core}`), 'Load', '%', `/linux/cpu/0/load/${core + 1}`));
+    }
+    for (const core of cores) {
+      const kHz = await readNumber(
+        this.p('sys', 'devices', 'system', 'cpu', `cpu${core}`, 'cpufreq', 'scaling_cur_freq'),
+      );
+      if (kHz !== null) {
+        sensors.push(sensor(`Core #${core + 1}`, kHz / 1000, 'Clock', 'MHz', `/linux/cpu/0/clock/${core + 1}`));
+      }
+    }
+
+    const energy = await readNumber(this.p('sys', 'class', 'powercap', 'intel-rapl:0', 'energy_uj'));
+    if (energy !== null) {
+      const microwatts = this.rate('rapl:0', energy, now);
+      sensors.push(
+        sensor('CPU Package', microwatts === null ? null : microwatts / 1e6, 'Power', 'W', '/linux/cpu/0/power/0'),
+      );
+    }
+
+    for (const chip of chips) {
+      if (!CPU_CHIPS.includes(chip.name)) continue;
+      used.add(chip);
+      sensors.push(...chip.sensors);
+    }
+
+    return [{Name: modelName, HardwareType: 'Cpu', Sensors: sensors, SubHardware: []}];
+  }
+
+  private async readGpus(chips: HwmonChip[], used: Set<HwmonChip>): Promise<HardwareItemInfo[]> {
+    const gpus: HardwareItemInfo[] = [];
+
+    for (const chip of chips) {
+      const info = GPU_CHIPS[chip.name];
+      if (!info) continue;
+      used.add(chip);
+
+      const index = gpus.length;
+      const sensors = [...chip.sensors];
+      if (chip.devicePath) {
+        const busy = await readNumber(path.join(chip.devicePath, 'gpu_busy_percent'));
+        if (busy !== null) sensors.push(sensor('GPU Core', busy, 'Load', '%', `/linux/gpu/${index}/load/0`));
+
+        const vramUsed = await readNumber(path.join(chip.devicePath, 'mem_info_vram_used'));
+        const vramTotal = await readNumber(path.join(chip.devicePath, 'mem_info_vram_total'));
+        if (vramUsed !== null && vramTotal !== null) {
+          const mib = 1024 ** 2;
+          sensors.push(
+            sensor('GPU Memory Used', vramUsed / mib, 'SmallData', 'MB', `/linux/gpu/${index}/smalldata/0`),
+            sensor('GPU Memory Total', vramTotal / mib, 'SmallData', 'MB', `/linux/gpu/${index}/smalldata/1`),
+            sensor(
+              'GPU Memory',
+              vramTotal > 0 ? (vramUsed / vramTotal) * 100 : null,
+              'Load',
+              '%',
+              `/linux/gpu/${index}/load/1`,
+            ),
+          );
+        }
+      }
+
+      gpus.push({Name: info.name, HardwareType: info.hardwareType, Sensors: sensors, SubHardware: []});
+    }
+    return gpus;
+  }
+
+  private async readMemory(): Promise<HardwareItemInfo[]> {
+    const memInfo = (await readText(this.p('proc', 'meminfo'))) ?? '';
+    const kb = (key: string): number | null => {
+      const match = new RegExp(`^${key}:\\s+(\\d+)`, 'm').exec(memInfo);
+      return match ? Number(match[1]) : null;
+    };
+
+    const total = kb('MemTotal');
+    if (total === null) return [];
+    const available = kb('MemAvailable') ?? (kb('MemFree') ?? 0) + (kb('Buffers') ?? 0) + (kb('Cached') ?? 0);
+    const usedKb = total - available;
+    const toGiB = (value: number) => (value * 1024) / GIB;
+
+    const sensors: SensorInfo[] = [
+      sensor('Memory Used', toGiB(usedKb), 'Data', 'GB', '/linux/ram/data/0'),
+      sensor('Memory Available', toGiB(available), 'Data', 'GB', '/linux/ram/data/1'),
+      sensor('Memory', total > 0 ? (usedKb / total) * 100 : null, 'Load', '%', '/linux/ram/load/0'),
+    ];
+
+    const swapTotal = kb('SwapTotal');
+    const swapFree = kb('SwapFree');
+    if (swapTotal && swapFree !== null) {
+      const swapUsed = swapTotal - swapFree;
+      sensors.push(
+        sensor('Virtual Memory Used', toGiB(swapUsed), 'Data', 'GB', '/linux/ram/data/2'),
+        sensor('Virtual Memory Available', toGiB(swapFree), 'Data', 'GB', '/linux/ram/data/3'),
+        sensor('Virtual Memory', (swapUsed / swapTotal) * 100, 'Load', '%', '/linux/ram/load/1'),
+      );
+    }
+
+    return [{Name: 'Generic Memory', HardwareType: 'Memory', Sensors: sensors, SubHardware: []}];
+  }
+
+  private async readStorage(chips: HwmonChip[], used: Set<HwmonChip>): Promise<HardwareItemInfo[]> {
+    const drives: HardwareItemInfo[] = [];
+    const now = Date.now();
+
+    for (const device of await listDir(this.p('sys', 'block'))) {
+      if (IGNORED_BLOCK_DEVICES.test(device)) continue;
+      const blockDir = this.p('sys', 'block', device);
+      const stat = await readText(path.join(blockDir, 'stat'));
+      if (stat === null) continue;
+
+      const fields = stat.split(/\s+/).map(Number);
+      const bytesRead = fields[2] * SECTOR_SIZE;
+      const bytesWritten = fields[6] * SECTOR_SIZE;
+      const ioTicks = fields[9];
+      const id = `/linux/storage/${device}`;
+
+      const activity = this.rate(`${id}/ticks`, ioTicks, now);
+      const sensors: SensorInfo[] = [
+        sensor('Data Read', bytesRead / GIB, 'Data', 'GB', `${id}/data/0`),
+        sensor('Data Written', bytesWritten / GIB, 'Data', 'GB', `${id}/data/1`),
+        sensor('Read Rate', this.rate(`${id}/read`, bytesRead, now), 'Throughput', 'B/s', `${id}/throughput/0`),
+        sensor('Write Rate', this.rate(`${id}/write`, bytesWritten, now), 'Throughput', 'B/s', `${id}/throughput/1`),
+        // io_ticks is in milliseconds, so ms-per-second / 10 gives a percentage
+        sensor('Total Activity', activity === null ? null : Math.min(100, activity / 10), 'Load', '%', `${id}/load/0`),
+      ];
+
+      const devicePath = await resolveLink(path.join(blockDir, 'device'));
+      for (const chip of chips) {
+        if (STORAGE_CHIPS.includes(chip.name) && devicePath && chip.devicePath === devicePath) {
+          used.add(chip);
+          sensors.push(...chip.sensors);
+        }
+      }
+
+      const model = await readText(path.join(blockDir, 'device', 'model'));
+      drives.push({Name: model || device, HardwareType: 'Storage', Sensors: sensors, SubHardware: []});
+    }
+    return drives;
+  }
+
+  private async readNetwork(): Promise<HardwareItemInfo[]> {
+    const netDev = (await readText(this.p('proc', 'net', 'dev'))) ?? '';
+    const adapters: HardwareItemInfo[] = [];
+    const now = Date.now();
+
+    for (const line of netDev.split('\n')) {
+      const match = /^\s*([^:\s]+):\s*(.*)$/.exec(line);
+      if (!match || match[1] === 'lo') continue;
+      const [, iface, rest] = match;
+      const fields = rest.trim().split(/\s+/).map(Number);
+      const received = fields[0];
+      const sent = fields[8];
+      const id = `/linux/nic/${iface}`;
+
+      const uploadRate = this.rate(`${id}/tx`, sent, now);
+      const downloadRate = this.rate(`${id}/rx`, received, now);
+      const sensors: SensorInfo[] = [
+        sensor('Data Uploaded', sent / GIB, 'Data', 'GB', `${id}/data/2`),
+        sensor('Data Downloaded', received / GIB, 'Data', 'GB', `${id}/data/3`),
+        sensor('Upload Speed', uploadRate, 'Throughput', 'B/s', `${id}/throughput/7`),
+        sensor('Download Speed', downloadRate, 'Throughput', 'B/s', `${id}/throughput/8`),
+      ];
+
+      const speedMbit = await readNumber(this.p('sys', 'class', 'net', iface, 'speed'));
+      if (speedMbit !== null && speedMbit > 0) {
+        const utilization =
+          uploadRate === null || downloadRate === null
+            ? null
+            : Math.min(100, ((Math.max(uploadRate, downloadRate) * 8) / (speedMbit * 1e6)) * 100);
+        sensors.push(sensor('Network Utilization', utilization, 'Load', '%', `${id}/load/1`));
+      }
+
+      adapters.push({Name: iface, HardwareType: 'Network', Sensors: sensors, SubHardware: []});
+    }
+    return adapters;
+  }
+
+  private async readBatteries(): Promise<HardwareItemInfo[]> {
+    const baseDir = this.p('sys', 'class', 'power_supply');
+    const batteries: HardwareItemInfo[] = [];
+
+    for (const entry of await listDir(baseDir)) {
+      const dir = path.join(baseDir, entry);
+      if ((await readText(path.join(dir, 'type'))) !== 'Battery') continue;
+      const num = (file: string) => readNumber(path.join(dir, file));
+      const id = `/linux/battery/${batteries.length}`;
+      const charging = (await readText(path.join(dir, 'status'))) === 'Charging';
+
+      const capacity = await num('capacity');
+      const voltage = await num('voltage_now');
+      const current = await num('current_now');
+      const power =
+        (await num('power_now')) ?? (current !== null && voltage !== null ? (current * voltage) / 1e6 : null);
+      const energyNow = await num('energy_now');
+      const energyFull = await num('energy_full');
+      const energyDesign = await num('energy_full_design');
+
+      const sensors: SensorInfo[] = [];
+      if (capacity !== null) sensors.push(sensor('Charge Level', capacity, 'Level', '%', `${id}/level/0`));
+      if (energyFull !== null && energyDesign) {
+        sensors.push(
+          sensor('Degradation Level', 100 - (energyFull / energyDesign) * 100, 'Level', '%', `${id}/level/1`),
+        );
+      }
+      if (voltage !== null) sensors.push(sensor('Voltage', voltage / 1e6, 'Voltage', 'V', `${id}/voltage/0`));
+      if (current !== null) {
+        const name = charging ? 'Charge Current' : 'Discharge Current';
+        sensors.push(sensor(name, Math.abs(current) / 1e6, 'Current', 'A', `${id}/current/0`));
+      }
+      if (power !== null) {
+        const name = charging ? 'Charge Rate' : 'Discharge Rate';
+        sensors.push(sensor(name, Math.abs(power) / 1e6, 'Power', 'W', `${id}/power/0`));
+      }
+      // energy_* values are in µWh
+      if (energyDesign !== null) {
+        sensors.push(sensor('Designed Capacity', energyDesign / 1000, 'Energy', 'mWh', `${id}/energy/0`));
+      }
+      if (energyFull !== null) {
+        sensors.push(sensor('Full Charged Capacity', energyFull / 1000, 'Energy', 'mWh', `${id}/energy/1`));
+      }
+      if (energyNow !== null) {
+        sensors.push(sensor('Remaining Capacity', energyNow / 1000, 'Energy', 'mWh', `${id}/energy/2`));
+      }
+
+      const model = await readText(path.join(dir, 'model_name'));
+      batteries.push({Name: model || entry, HardwareType: 'Battery', Sensors: sensors, SubHardware: []});
+    }
+    return batteries;
+  }
+
+  private async readMotherboard(chips: HwmonChip[], used: Set<HwmonChip>): Promise<HardwareItemInfo[]> {
+    const vendor = await readText(this.p('sys', 'class', 'dmi', 'id', 'board_vendor'));
+    const board = await readText(this.p('sys', 'class', 'dmi', 'id', 'board_name'));
+
+    const subHardware: HardwareItemInfo[] = chips
+      .filter(chip => !used.has(chip) && !STORAGE_CHIPS.includes(chip.name) && !/^(BAT|AC|ADP)/i.test(chip.name))
+      .filter(chip => chip.sensors.length > 0)
+      .map(chip => ({Name: chip.name, HardwareType: 'SuperIO', Sensors: chip.sensors, SubHardware: []}));
+
+    if (!vendor && !board && subHardware.length === 0) return [];
+    const name = [vendor, board].filter(Boolean).join(' ') || 'Motherboard';
+    return [{Name: name, HardwareType: 'Motherboard', Sensors: [], SubHardware: subHardware}];
+  }
+}
+
+/**
+ * Timed source that collects a report every interval and writes it as JSON to stdout.
+ */
+class LinuxTimedProcess extends EventEmitter implements TimedProcess {
+  public readonly stdout = new PassThrough();
+  public readonly stderr = new PassThrough();
+  public readonly pid = undefined;
+  private readonly collector: LinuxCollector;
+  private readonly components: ComponentType[];
+  private timer: NodeJS.Timeout | null = null;
+  private collecting: boolean = false;
+  private killed: boolean = false;
+
+  constructor(collector: LinuxCollector, intervalMs: number, components: ComponentType[]) {
+    super();
+    this.collector = collector;
+    this.components = components;
+
+    process.nextTick(async () => {
+      if (this.killed) return;
+      this.emit('spawn');
+      // Take the first sample right away so the first report already has loads and rates
+      await this.collector.collect(this.components).catch(() => {});
+      if (this.killed) return;
+      this.timer = setInterval(() => this.tick(), intervalMs);
+    });
+  }
+
+  public kill(): boolean {
+    if (this.killed) return false;
+    this.killed = true;
+    if (this.timer) clearInterval(this.timer);
+    this.stdout.end();
+    this.stderr.end();
+    setImmediate(() => this.emit('close', null));
+    return true;
+  }
+
+  private async tick(): Promise<void> {
+    if (this.collecting || this.killed) return;
+    this.collecting = true;
+    try {
+      const report = await this.collector.collect(this.components);
+      if (!this.killed) this.stdout.write(`${JSON.stringify(report)}\n`);
+    } catch (error) {
+      if (!this.killed) this.stderr.write(`Failed to read Linux sensors: ${(error as Error).message}\n`);
+    } finally {
+      this.collecting = false;
+    }
+  }
+}
+
+/**
+ * Pure-Node backend for Linux reading procfs and sysfs; no .NET runtime or CLI download needed.
+ * Covers CPU load/clock/temperature, memory, network, block storage, batteries, hwmon chips (GPU and
+ * motherboard sensors) and produces the same HardwareReport shape as the CLI.
+ */
+export class LinuxBackend implements MonitorBackend {
+  public readonly name = 'linux';
+  public readonly ready = true;
+  private readonly root: string;
+  private readonly sampleDelayMs: number;
+
+  constructor(options: LinuxBackendOptions = {}) {
+    this.root = options.root ?? '/';
+    this.sampleDelayMs = options.sampleDelayMs ?? 250;
+  }
+
+  /**
+   * Verifies that procfs is readable under the configured root.
+   * @throws Error if `/proc/stat` cannot be read.
+   */
+  public async checkRequirements(): Promise<void> {
+    try {
+      await fsPromises.access(path.join(this.root, 'proc', 'stat'));
+    } catch (error) {
+      throw new Error(`Linux backend requires a readable ${path.join(this.root, 'proc', 'stat')}.`, {cause: error});
+    }
+  }
+
+  public async readOnce(
+    components: ComponentType[] | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<HardwareReport> {
+    throwIfAborted(signal, 'getDataOnce');
+    const requested = backendComponents(components);
+    let timeoutHandle: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutHandle = setTimeout(() => {
+        const err: MonitorError = new Error(
+          `Hardware monitor 'getDataOnce' timed out after ${timeoutMs}ms.`,
+        ) as MonitorError;
+        err.type = 'timeout_error';
+        reject(err);
+      }, timeoutMs);
+      if (signal) {
+        onAbort = () => reject(createAbortError(signal, 'getDataOnce'));
+        signal.addEventListener('abort', onAbort, {once: true});
+      }
+    });
+
+    // Loads and rates cover only the sample delay, with a baseline of exactly the requested components
+    const collect = async () => {
+      const collector = new LinuxCollector(this.root);
+      await collector.collect(requested);
+      await new Promise(resolve => setTimeout(resolve, this.sampleDelayMs));
+      return collector.collect(requested);
+    };
+
+    try {
+      return await Promise.race([collect(), timeout]);
+    } catch (error) {
+      if ((error as MonitorError).type) throw error;
+      const err: MonitorError = new Error(`Failed to read Linux sensors: ${(error as Error).message}`) as MonitorError;
+      err.type = 'process_error';
+      err.rawError = error;
+      throw err;
+    } finally {
+      clearTimeout(timeoutHandle);
+      if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  public launchTimed(intervalMs: number, components: ComponentType[] | undefined): TimedProcess {
+    return new LinuxTimedProcess(new LinuxCollector(this.root), intervalMs, backendComponents(components));
+  }
+}
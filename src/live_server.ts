@@ -0,0 +1,526 @@
+import {createHash, timingSafeEqual} from 'node:crypto';
+import http from 'node:http';
+import {AddressInfo, isIP} from 'node:net';
+import type {Duplex} from 'node:stream';
+import type HardwareMonitor from './index.js';
+import type {ComponentType, HardwareItemInfo, HardwareReport} from './index.js';
+import {
+  flattenReport,
+  globToRegExp,
+  matchesSensorFilter,
+  REPORT_CATEGORIES,
+  SensorEntry,
+  SensorFilter,
+} from './sensor_query.js';
+import {filterReportComponents} from './subscription_hub.js';
+
+export type LiveServerOptions = {
+  /** Defaults to 9465. Use 0 for a random free port. */
+  port?: number;
+  /** Bind address. Defaults to '127.0.0.1'; use '0.0.0.0' to serve the LAN. */
+  host?: string;
+  /** Endpoint for both SSE and WebSocket clients. Defaults to '/live'. */
+  path?: string;
+  /** Require this token as `Authorization: Bearer <token>` or `?token=<token>`. */
+  token?: string;
+  /**
+   * Host names clients may use besides IP addresses and 'localhost', e.g. ['lab-01']; '*' accepts any.
+   * Requests with another Host header get 403, so other sites cannot reach the server through DNS rebinding.
+   */
+  allowedHosts?: string[];
+  /**
+   * Value of Access-Control-Allow-Origin for SSE responses, e.g. '*'. No CORS header is sent by default.
+   * WebSocket upgrades from browsers are only accepted from the server's own origin or this one ('*' for any).
+   */
+  allowOrigin?: string;
+  /** Interval between SSE keep-alive comments and WebSocket pings. Defaults to 15000ms; 0 disables them. */
+  heartbeatMs?: number;
+  /** Interval passed to startTimed. Defaults to 1000ms. */
+  intervalMs?: number;
+  /** Components passed to startTimed. Defaults to all. */
+  components?: ComponentType[];
+  /**
+   * Call startTimed when the first client connects and stopTimed when the last one leaves.
+   * Set to false if the monitor is already running.
+   */
+  manageMonitoring?: boolean;
+};
+
+export type LiveServer = {
+  server: http.Server;
+  /** Full http URL of the endpoint; WebSocket clients use the same URL with ws://. */
+  url: string;
+  /** Number of connected SSE and WebSocket clients. */
+  readonly clients: number;
+  /** Disconnects all clients, stops the server and, when managed, the timed monitoring. */
+  close: () => Promise<void>;
+};
+
+/** What a client asked for through its query parameters. */
+type ClientSelection = {
+  components: ComponentType[];
+  sensors: ((entry: SensorEntry) => boolean) | null;
+};
+
+type LiveClient = {
+  selection: ClientSelection;
+  send: (report: HardwareReport) => void;
+  heartbeat: () => void;
+  close: () => void;
+};
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+/** Client frames are only control messages; anything larger is refused. */
+const MAX_CLIENT_FRAME = 64 * 1024;
+/** Reports are skipped for clients that have this much unsent data, instead of buffering without limit. */
+const MAX_PENDING_BYTES = 1024 * 1024;
+
+function listParam(params: URLSearchParams, name: string): string[] {
+  return params
+    .getAll(name)
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(value => value.length > 0);
+}
+
+/**
+ * Reads the selection from `?components=cpu,gpu`, `?sensor=<identifier or glob>`, `?type=Temperature,Load`
+ * and `?path=<glob>`. `sensor` may be repeated; a sensor is sent when it matches any `sensor` value and
+ * all of `type` and `path`.
+ * @param params Query parameters of the request.
+ */
+function parseSelection(params: URLSearchParams): ClientSelection {
+  const components = listParam(params, 'components');
+  const identifiers = listParam(params, 'sensor').map(value => (/[*?]/.test(value) ? globToRegExp(value) : value));
+  const types = listParam(params, 'type');
+  const path = params.get('path') ?? undefined;
+
+  const filter: SensorFilter = {type: types.length > 0 ? types : undefined, path};
+  const hasFilter = filter.type !== undefined || filter.path !== undefined;
+  if (identifiers.length === 0 && !hasFilter) return {components, sensors: null};
+
+  return {
+    components,
+    sensors: entry =>
+      matchesSensorFilter(entry, filter) &&
+      (identifiers.length === 0 || identifiers.some(identifier => matchesSensorFilter(entry, {identifier}))),
+  };
+}
+
+/**
+ * Copies a report with only the selected sensors. Hardware items without selected sensors, directly or in
+ * their sub-hardware, are left out.
+ * @param report The report to filter.
+ * @param matches Selects the sensors to keep.
+ */
+function selectSensors(report: HardwareReport, matches: (entry: SensorEntry) => boolean): HardwareReport {
+  const selected = new Set(
+    flattenReport(report)
+      .filter(matches)
+      .map(entry => entry.sensor),
+  );
+
+  const prune = (item: HardwareItemInfo): HardwareItemInfo | null => {
+    const Sensors = (item.Sensors || []).filter(sensor => selected.has(sensor));
+    const SubHardware = (item.SubHardware || []).map(prune).filter((sub): sub is HardwareItemInfo => sub !== null);
+    return Sensors.length > 0 || SubHardware.length > 0 ? {...item, Sensors, SubHardware} : null;
+  };
+
+  const filtered = {...report};
+  for (const category of REPORT_CATEGORIES) {
+    if (!report[category]) continue;
+    filtered[category] = report[category].map(prune).filter((item): item is HardwareItemInfo => item !== null);
+  }
+  return filtered;
+}
+
+function applySelection(report: HardwareReport, selection: ClientSelection): HardwareReport {
+  const filtered = filterReportComponents(report, selection.components);
+  return selection.sensors ? selectSensors(filtered, selection.sensors) : filtered;
+}
+
+/**
+ * Compares tokens in constant time, also when their lengths differ.
+ * @param expected The configured token.
+ * @param given The token sent by the client, if any.
+ */
+function tokenMatches(expected: string, given: string | null | undefined): boolean {
+  if (typeof given !== 'string') return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(expected), digest(given));
+}
+
+function requestToken(req: http.IncomingMessage, params: URLSearchParams): string | null {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1].trim() : params.get('token');
+}
+
+/**
+ * Checks a host name from the Host or Origin header. A DNS rebinding attack points a name the attacker controls at
+ * this server, so only names that cannot be rebound (IP addresses and 'localhost') and configured ones pass.
+ * @param hostname Host name without port; IPv6 addresses may be in brackets.
+ * @param allowedHosts Additional allowed host names; '*' allows every host.
+ */
+function hostAllowed(hostname: string, allowedHosts: string[]): boolean {
+  const name = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  if (isIP(name) !== 0 || name === 'localhost' || allowedHosts.includes('*')) return true;
+  return allowedHosts.some(allowed => allowed.toLowerCase() === name);
+}
+
+/**
+ * Checks the Host header of a request, which browsers set to the name the page resolved.
+ * @param req The request.
+ * @param allowedHosts Additional allowed host names; '*' allows every host.
+ */
+function hostHeaderAllowed(req: http.IncomingMessage, allowedHosts: string[]): boolean {
+  try {
+    return hostAllowed(new URL(`http://${req.headers.host ?? ''}`).hostname, allowedHosts);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks the Origin of a WebSocket upgrade. Browsers do not apply CORS to WebSockets, so without this check any
+ * page the user visits could read the reports. Requests without Origin come from non-browser clients and pass.
+ * The server's own origin is an allowed host on its port; the request's Host header is not trusted for this.
+ * @param req The upgrade request.
+ * @param port Port the server listens on.
+ * @param allowedHosts Additional allowed host names; '*' allows every host.
+ * @param allowOrigin Additional origin allowed besides the server's own; '*' allows every origin.
+ */
+function originAllowed(
+  req: http.IncomingMessage,
+  port: number,
+  allowedHosts: string[],
+  allowOrigin: string | undefined,
+): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined || allowOrigin === '*' || origin === allowOrigin) return true;
+  try {
+    const url = new URL(origin);
+    const originPort = url.port ? Number(url.port) : url.protocol === 'https:' ? 443 : 80;
+    return originPort === port && hostAllowed(url.hostname, allowedHosts);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encodes a single unmasked, unfragmented WebSocket frame as sent by a server.
+ * @param opcode 0x1 text, 0x8 close, 0x9 ping or 0xA pong.
+ * @param payload Frame payload.
+ */
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(126, 1);
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header.writeUInt8(0x80 | opcode, 0);
+    header.writeUInt8(127, 1);
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+function closePayload(code: number): Buffer {
+  const payload = Buffer.alloc(2);
+  payload.writeUInt16BE(code, 0);
+  return payload;
+}
+
+function createSseClient(res: http.ServerResponse, selection: ClientSelection, onClose: () => void): LiveClient {
+  res.on('close', onClose);
+  return {
+    selection,
+    send: report => {
+      if (res.writableLength > MAX_PENDING_BYTES) return;
+      res.write(`event: report\ndata: ${JSON.stringify(applySelection(report, selection))}\n\n`);
+    },
+    heartbeat: () => {
+      res.write(': ping\n\n');
+    },
+    close: () => {
+      res.end();
+    },
+  };
+}
+
+/**
+ * Wraps an upgraded socket. Only the server sends data; client frames are read for close, ping and pong.
+ */
+function createWebSocketClient(socket: Duplex, selection: ClientSelection, onClose: () => void): LiveClient {
+  let buffer = Buffer.alloc(0);
+  let closing = false;
+
+  const sendFrame = (opcode: number, payload: Buffer) => {
+    if (!socket.writable) return;
+    socket.write(encodeFrame(opcode, payload));
+  };
+  const closeWith = (code: number) => {
+    if (closing) return;
+    closing = true;
+    sendFrame(0x8, closePayload(code));
+    socket.end();
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2) {
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        const longLength = buffer.readBigUInt64BE(2);
+        length = longLength > BigInt(MAX_CLIENT_FRAME) ? MAX_CLIENT_FRAME + 1 : Number(longLength);
+        offset = 10;
+      }
+      if (!masked) return closeWith(1002);
+      if (length > MAX_CLIENT_FRAME) return closeWith(1009);
+      if (buffer.length < offset + 4 + length) return;
+
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) {
+        if (!closing) {
+          closing = true;
+          sendFrame(0x8, payload.subarray(0, 2));
+          socket.end();
+        }
+        return;
+      }
+      if (opcode === 0x9) sendFrame(0xa, payload);
+      // Text, binary and pong frames are not used by this server
+    }
+  });
+  socket.on('error', () => socket.destroy());
+  socket.on('close', onClose);
+
+  return {
+    selection,
+    send: report => {
+      if (closing || socket.writableLength > MAX_PENDING_BYTES) return;
+      const message = JSON.stringify({event: 'report', data: applySelection(report, selection)});
+      sendFrame(0x1, Buffer.from(message));
+    },
+    heartbeat: () => {
+      if (!closing) sendFrame(0x9, Buffer.alloc(0));
+    },
+    close: () => closeWith(1001),
+  };
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string, headers: string[] = []): void {
+  const lines = [`HTTP/1.1 ${status} ${message}`, 'Connection: close', ...headers, '', ''];
+  socket.end(lines.join('\r\n'));
+}
+
+/**
+ * Starts a local server that pushes timed reports to browser dashboards over Server-Sent Events and WebSocket.
+ * Both are served on one path: plain GET requests get an SSE stream of 'report' events, WebSocket upgrades get
+ * `{"event":"report","data":...}` text messages. Clients narrow reports with the `components`, `sensor`, `type`
+ * and `path` query parameters and receive the latest report as soon as they connect.
+ * When managed, the CLI only runs while at least one client is connected, supervised so it is restarted if it
+ * crashes. The monitor must be ready (checkRequirements() resolved) before the first client connects in that case;
+ * a failed start, or a CLI the supervisor gave up on, is started again when the next client connects.
+ * @param monitor The monitor providing 'data' events.
+ * @param options Server and monitoring options.
+ * @returns The running server.
+ * @throws Error if monitoring is managed and timed monitoring is already active.
+ */
+export async function startLiveServer(monitor: HardwareMonitor, options: LiveServerOptions = {}): Promise<LiveServer> {
+  const livePath = options.path ?? '/live';
+  const manageMonitoring = options.manageMonitoring ?? true;
+  const heartbeatMs = options.heartbeatMs ?? 15000;
+  const allowedHosts = options.allowedHosts ?? [];
+  if (manageMonitoring && monitor.timedActive) {
+    throw new Error('Timed monitoring is already active. Stop it first or set manageMonitoring to false.');
+  }
+  const clients = new Set<LiveClient>();
+  let latestReport: HardwareReport | null = null;
+  let monitoring = false;
+  let closed = false;
+
+  const updateMonitoring = () => {
+    if (!manageMonitoring) return;
+    // Ended without us, e.g. stopped elsewhere; the next client starts it again
+    if (monitoring && !monitor.timedActive) monitoring = false;
+    if (clients.size > 0 && !monitoring && !closed) {
+      // Started elsewhere while idle; its reports reach the clients as well
+      if (monitor.timedActive) return;
+      monitor.startTimed(options.intervalMs ?? 1000, options.components, {supervise: true});
+      // A failed start is reported as an 'error' event and leaves timed monitoring inactive
+      monitoring = monitor.timedActive;
+    } else if ((clients.size === 0 || closed) && monitoring) {
+      monitoring = false;
+      // Not kept while idle, so the next client does not start with an outdated snapshot
+      latestReport = null;
+      monitor.stopTimed();
+    }
+  };
+
+  const addClient = (client: LiveClient) => {
+    clients.add(client);
+    if (latestReport) client.send(latestReport);
+    updateMonitoring();
+  };
+  const removeClient = (client: LiveClient) => {
+    if (clients.delete(client)) updateMonitoring();
+  };
+
+  const onData = (report: HardwareReport) => {
+    latestReport = report;
+    for (const client of clients) client.send(report);
+  };
+  // Without a listener, an 'error' event from startTimed() would throw inside the request handler
+  const onError = () => {};
+  const onGaveUp = () => {
+    monitoring = false;
+    latestReport = null;
+  };
+  monitor.on('data', onData);
+  if (manageMonitoring) {
+    monitor.on('error', onError);
+    monitor.on('gaveUp', onGaveUp);
+  }
+  const detachMonitor = () => {
+    monitor.off('data', onData);
+    monitor.off('error', onError);
+    monitor.off('gaveUp', onGaveUp);
+  };
+
+  /** Parses the request URL and checks path, Host and token; null when the request has been rejected. */
+  const authorize = (
+    req: http.IncomingMessage,
+    reject: (status: number, message: string, headers?: Record<string, string>) => void,
+  ): URLSearchParams | null => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== livePath || req.method !== 'GET') {
+      reject(404, 'Not Found');
+      return null;
+    }
+    if (!hostHeaderAllowed(req, allowedHosts)) {
+      reject(403, 'Forbidden');
+      return null;
+    }
+    if (options.token !== undefined && !tokenMatches(options.token, requestToken(req, url.searchParams))) {
+      reject(401, 'Unauthorized', {'WWW-Authenticate': 'Bearer'});
+      return null;
+    }
+    return url.searchParams;
+  };
+
+  const server = http.createServer((req, res) => {
+    const params = authorize(req, (status, message, headers = {}) => {
+      res.writeHead(status, {...headers, 'Content-Type': 'text/plain; charset=utf-8'}).end(`${message}\n`);
+    });
+    if (!params) return;
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    };
+    if (options.allowOrigin) headers['Access-Control-Allow-Origin'] = options.allowOrigin;
+    res.writeHead(200, headers);
+    res.flushHeaders();
+
+    const client = createSseClient(res, parseSelection(params), () => removeClient(client));
+    addClient(client);
+  });
+
+  server.on('upgrade', (req: http.IncomingMessage, socket: Duplex) => {
+    const params = authorize(req, (status, message, headers = {}) => {
+      rejectUpgrade(
+        socket,
+        status,
+        message,
+        Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+      );
+    });
+    if (!params) return;
+    const {port} = server.address() as AddressInfo;
+    if (!originAllowed(req, port, allowedHosts, options.allowOrigin)) {
+      rejectUpgrade(socket, 403, 'Forbidden');
+      return;
+    }
+
+    const key = req.headers['sec-websocket-key'];
+    if ((req.headers.upgrade ?? '').toLowerCase() !== 'websocket' || typeof key !== 'string') {
+      rejectUpgrade(socket, 400, 'Bad Request');
+      return;
+    }
+    if (req.headers['sec-websocket-version'] !== '13') {
+      rejectUpgrade(socket, 426, 'Upgrade Required', ['Sec-WebSocket-Version: 13']);
+      return;
+    }
+
+    const accept = createHash('sha1').update(`${key}${WEBSOCKET_GUID}`).digest('base64');
+    socket.write(
+      [
+        'HTTP/1.1 101 Switching Protocols',
+        'Upgrade: websocket',
+        'Connection: Upgrade',
+        `Sec-WebSocket-Accept: ${accept}`,
+        '',
+        '',
+      ].join('\r\n'),
+    );
+
+    const client = createWebSocketClient(socket, parseSelection(params), () => removeClient(client));
+    addClient(client);
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port ?? 9465, options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  } catch (error) {
+    detachMonitor();
+    throw error;
+  }
+
+  const heartbeat =
+    heartbeatMs > 0 ? setInterval(() => clients.forEach(client => client.heartbeat()), heartbeatMs) : null;
+  heartbeat?.unref();
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    server,
+    url: `http://${host}:${address.port}${livePath}`,
+    get clients() {
+      return clients.size;
+    },
+    close: async () => {
+      if (closed) return;
+      closed = true;
+      if (heartbeat) clearInterval(heartbeat);
+      detachMonitor();
+      for (const client of [...clients]) client.close();
+      clients.clear();
+      updateMonitoring();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import type {LogLevel} from './index.js';
+
+/** Structured fields attached to a log entry. */
+export type LogContext = {
+  /** Part of the module that logged, e.g. 'monitor', 'downloader', 'install-lock' or 'dotnet'. */
+  component?: string;
+  /** CLI release or .NET runtime version the entry is about. */
+  version?: string;
+  /** Process the entry is about, e.g. the CLI or the install lock holder. */
+  pid?: number;
+  /** How long the operation took. */
+  durationMs?: number;
+  [key: string]: unknown;
+};
+
+/** Receives log entries; pass one to HardwareMonitor to route output into your own logging. */
+export interface MonitorLogger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info', 'debug'];
+
+/**
+ * Creates the default logger, which writes messages at or above `logLevel` to the console.
+ * The context is only printed at the 'debug' level.
+ * @param logLevel Most verbose level to print.
+ */
+export function createConsoleLogger(logLevel: LogLevel = 'info'): MonitorLogger {
+  const enabled = (level: LogLevel) => LOG_LEVELS.indexOf(logLevel) >= LOG_LEVELS.indexOf(level);
+  const write = (level: LogLevel, print: (...args: any[]) => void) => (message: string, context?: LogContext) => {
+    if (!enabled(level)) return;
+    if (logLevel === 'debug' && context && Object.keys(context).length > 0) print(message, context);
+    else print(message);
+  };
+  return {
+    debug: write('debug', console.log),
+    info: write('info', console.log),
+    warn: write('warn', console.warn),
+    error: write('error', console.error),
+  };
+}
+
+/**
+ * Turns the logger option into a logger. A LogLevel string is shorthand for the console logger at that level.
+ * @param logger A LogLevel or a logger.
+ */
+export function resolveLogger(logger: LogLevel | MonitorLogger = 'info'): MonitorLogger {
+  return typeof logger === 'string' ? createConsoleLogger(logger) : logger;
+}
+
+/**
+ * Wraps a logger so every entry carries the given fields. Fields passed with an entry take precedence.
+ * @param logger The logger to write to.
+ * @param context Fields added to every entry, usually `component`.
+ */
+export function withLogContext(logger: MonitorLogger, context: LogContext): MonitorLogger {
+  const wrap =
+    (write: MonitorLogger['debug']) =>
+    (message: string, entryContext?: LogContext): void =>
+      write.call(logger, message, {...context, ...entryContext});
+  return {
+    debug: wrap(logger.debug),
+    info: wrap(logger.info),
+    warn: wrap(logger.warn),
+    error: wrap(logger.error),
+  };
+}
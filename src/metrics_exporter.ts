@@ -0,0 +1,287 @@
+import http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import type HardwareMonitor from './index.js';
+import type {ComponentType, HardwareReport, SensorInfo} from './index.js';
+import {flattenReport} from './sensor_query.js';
+import {canConvert, convertValue, describeSensor, SensorUnit} from './sensor_units.js';
+
+export type OpenMetricsOptions = {
+  /** Metric name prefix. Defaults to 'lynx_hw'. */
+  prefix?: string;
+  /** Export Uptime/ElapsedTime as gauges when present. Defaults to true. */
+  includeUptime?: boolean;
+  /** Extra labels added to every sample, e.g. `{host: 'lab-01'}`. */
+  constLabels?: Record<string, string>;
+};
+
+export type MetricsServerOptions = OpenMetricsOptions & {
+  /** Defaults to 9464. Use 0 for a random free port. */
+  port?: number;
+  /** Bind address. Defaults to '127.0.0.1'. */
+  host?: string;
+  /** Defaults to '/metrics'. */
+  path?: string;
+  /**
+   * Interval passed to startTimed. Defaults to 5000ms. Reports older than three intervals are not served,
+   * so set it to the monitor's interval when monitoring is not managed.
+   */
+  intervalMs?: number;
+  /** Components passed to startTimed. Defaults to all. */
+  components?: ComponentType[];
+  /** Call startTimed/stopTimed with the server lifecycle. Set to false if the monitor is already running. */
+  manageMonitoring?: boolean;
+};
+
+export type MetricsServer = {
+  server: http.Server;
+  /** Full URL of the metrics endpoint. */
+  url: string;
+  /** Stops the server and, when managed, the timed monitoring. */
+  close: () => Promise<void>;
+};
+
+type UnitMapping = {
+  unit: string;
+  convert: (value: number) => number;
+};
+
+type MetricUnit = {
+  /** Unit the reading is converted to with convertValue(). */
+  unit: SensorUnit;
+  /** OpenMetrics unit name. */
+  name: string;
+};
+
+// OpenMetrics base units. Conversion factors come from sensor_units, so exported values match convertReport()
+const METRIC_UNITS: MetricUnit[] = [
+  {unit: '°C', name: 'celsius'},
+  {unit: 'B', name: 'bytes'},
+  {unit: 'B/s', name: 'bytes_per_second'},
+  {unit: 'Hz', name: 'hertz'},
+  {unit: 'W', name: 'watts'},
+  {unit: 'V', name: 'volts'},
+  {unit: 'A', name: 'amperes'},
+  {unit: 'J', name: 'joules'},
+  {unit: 's', name: 'seconds'},
+];
+
+// Units without a convertible dimension
+const PLAIN_UNITS: Record<string, UnitMapping> = {
+  '%': {unit: 'ratio', convert: value => value * 0.01},
+  RPM: {unit: 'rpm', convert: value => value},
+  'L/h': {unit: 'liters_per_hour', convert: value => value},
+  dBA: {unit: 'dba', convert: value => value},
+};
+
+/**
+ * Picks the OpenMetrics base unit for a sensor, resolving its unit like describeSensor().
+ * @returns The unit and conversion, or null if the sensor's unit is not known.
+ */
+function metricUnitFor(sensor: SensorInfo): UnitMapping | null {
+  const {unit} = describeSensor(sensor);
+  if (unit === null) return null;
+  if (PLAIN_UNITS[unit]) return PLAIN_UNITS[unit];
+  const target = METRIC_UNITS.find(candidate => canConvert(unit, candidate.unit));
+  return target ? {unit: target.name, convert: value => convertValue(value, unit, target.unit)} : null;
+}
+
+type Sample = {
+  labels: Record<string, string>;
+  value: number;
+};
+
+type MetricFamily = {
+  name: string;
+  unit: string;
+  help: string;
+  samples: Sample[];
+};
+
+function toMetricToken(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Escapes a label value per the OpenMetrics text format.
+ * @param value Raw label value.
+ */
+export function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map(key => `${key}="${escapeLabelValue(labels[key])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Formats a HardwareReport as OpenMetrics text.
+ * Sensor Type and Unit select the metric name and base unit; hardware and sensor details become labels.
+ * Sensors with a `null` value are exported as NaN so their series stay stable across reports.
+ * @param report The report to format.
+ * @param options Formatting options.
+ * @returns OpenMetrics exposition text, terminated by `# EOF`.
+ */
+export function formatOpenMetrics(report: HardwareReport, options: OpenMetricsOptions = {}): string {
+  const prefix = options.prefix ?? 'lynx_hw';
+  const constLabels = options.constLabels ?? {};
+  const families = new Map<string, MetricFamily>();
+
+  const familyFor = (name: string, unit: string, help: string): MetricFamily => {
+    let family = families.get(name);
+    if (!family) {
+      family = {name, unit, help, samples: []};
+      families.set(name, family);
+    }
+    return family;
+  };
+
+  for (const {sensor, hardware, category} of flattenReport(report)) {
+    const mapping = metricUnitFor(sensor);
+    const unit = mapping?.unit ?? toMetricToken(sensor.Unit);
+    const typeToken = toMetricToken(sensor.Type) || 'value';
+    const name = unit ? `${prefix}_${typeToken}_${unit}` : `${prefix}_${typeToken}`;
+    const value = sensor.Value === null ? NaN : mapping ? mapping.convert(sensor.Value) : sensor.Value;
+
+    familyFor(name, unit, `${sensor.Type} sensor reading${unit ? ` in ${unit}` : ''}.`).samples.push({
+      labels: {
+        ...constLabels,
+        category: category.toLowerCase(),
+        hardware: hardware.Name,
+        hardware_type: hardware.HardwareType,
+        sensor: sensor.Name,
+        identifier: sensor.Identifier,
+      },
+      value,
+    });
+  }
+
+  if (options.includeUptime ?? true) {
+    if (report.Uptime) {
+      familyFor(`${prefix}_uptime_seconds`, 'seconds', 'Operating system uptime.').samples.push({
+        labels: {...constLabels},
+        value: report.Uptime.rawSeconds,
+      });
+    }
+    if (report.ElapsedTime) {
+      familyFor(`${prefix}_elapsed_seconds`, 'seconds', 'Time since the monitor was created.').samples.push({
+        labels: {...constLabels},
+        value: report.ElapsedTime.rawSeconds,
+      });
+    }
+  }
+
+  const lines: string[] = [];
+  for (const family of [...families.values()].sort((a, b) => a.name.localeCompare(b.name))) {
+    lines.push(`# TYPE ${family.name} gauge`);
+    if (family.unit) lines.push(`# UNIT ${family.name} ${family.unit}`);
+    lines.push(`# HELP ${family.name} ${family.help}`);
+
+    const samples = family.samples.sort((a, b) => (a.labels.identifier ?? '').localeCompare(b.labels.identifier ?? ''));
+    for (const sample of samples) {
+      lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  }
+  lines.push('# EOF');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Serves the latest timed report as OpenMetrics on a local HTTP endpoint.
+ * The monitor must be ready (checkRequirements() resolved) before calling this. Managed monitoring is supervised,
+ * so a crashed CLI is restarted.
+ * @param monitor The monitor providing 'data' events.
+ * @param options Server, monitoring and formatting options.
+ * @returns The running server.
+ * @throws Error if monitoring is managed and timed monitoring is already active.
+ */
+export async function startMetricsServer(
+  monitor: HardwareMonitor,
+  options: MetricsServerOptions = {},
+): Promise<MetricsServer> {
+  const metricsPath = options.path ?? '/metrics';
+  const manageMonitoring = options.manageMonitoring ?? true;
+  if (manageMonitoring && monitor.timedActive) {
+    throw new Error('Timed monitoring is already active. Stop it first or set manageMonitoring to false.');
+  }
+  const staleAfterMs = 3 * (options.intervalMs ?? 5000);
+  let latestReport: HardwareReport | null = null;
+  let latestAt = 0;
+
+  const onData = (report: HardwareReport) => {
+    latestReport = report;
+    latestAt = Date.now();
+  };
+  monitor.on('data', onData);
+
+  const server = http.createServer((req, res) => {
+    const requestPath = (req.url ?? '/').split('?')[0];
+    if (requestPath !== metricsPath || (req.method !== 'GET' && req.method !== 'HEAD')) {
+      res.writeHead(404, {'Content-Type': 'text/plain; charset=utf-8'}).end('Not Found\n');
+      return;
+    }
+    if (!latestReport) {
+      res.writeHead(503, {'Content-Type': 'text/plain; charset=utf-8'}).end('No hardware report available yet.\n');
+      return;
+    }
+    // Scrapers must see the CLI has stopped reporting, not the last values forever
+    if (Date.now() - latestAt > staleAfterMs) {
+      res.writeHead(503, {'Content-Type': 'text/plain; charset=utf-8'}).end('Hardware report is outdated.\n');
+      return;
+    }
+
+    const body = formatOpenMetrics(latestReport, options);
+    res.writeHead(200, {'Content-Type': 'application/openmetrics-text; version=1.0.0; charset=utf-8'});
+    res.end(req.method === 'HEAD' ? undefined : body);
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(options.port ?? 9464, options.host ?? '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  } catch (error) {
+    monitor.off('data', onData);
+    throw error;
+  }
+
+  if (manageMonitoring) {
+    try {
+      monitor.startTimed(options.intervalMs ?? 5000, options.components, {supervise: true});
+    } catch (error) {
+      // An 'error' event without listener is thrown by startTimed; the server must not outlive it
+      monitor.off('data', onData);
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      throw error;
+    }
+  }
+
+  const address = server.address() as AddressInfo;
+  const host = address.family === 'IPv6' ? `[${address.address}]` : address.address;
+
+  return {
+    server,
+    url: `http://${host}:${address.port}${metricsPath}`,
+    close: async () => {
+      monitor.off('data', onData);
+      if (manageMonitoring) monitor.stopTimed();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,330 @@
+import type {ComponentType, HardwareReport, MonitorError} from './index.js';
+import {filterReportComponents} from './subscription_hub.js';
+import {createAbortError} from './abort.js';
+
+/** Reads a finalized report (without unit conversion) for the given components. */
+export type OnceReader = (
+  components: ComponentType[] | undefined,
+  timeoutMs: number,
+  signal: AbortSignal,
+) => Promise<HardwareReport>;
+
+type ComponentSet = {
+  /** 'all' or the requested hardware components, lower-cased. */
+  hardware: 'all' | Set<string>;
+  uptime: boolean;
+};
+
+type CachedReport = {
+  report: HardwareReport;
+  components: ComponentType[] | undefined;
+  at: number;
+};
+
+type InFlightRead = {
+  components: ComponentType[] | undefined;
+  promise: Promise<HardwareReport>;
+  /** Aborts the read once every caller waiting for it has aborted. */
+  controller: AbortController;
+  /** Callers that have neither aborted nor timed out. */
+  holders: number;
+};
+
+type QueuedRequest = {
+  components: ComponentType[] | undefined;
+  timeoutMs: number;
+  signal?: AbortSignal;
+  resolve: (report: HardwareReport) => void;
+  reject: (err: Error) => void;
+};
+
+type TimedWaiter = QueuedRequest & {
+  timer: NodeJS.Timeout;
+  onAbort?: () => void;
+};
+
+/**
+ * Mirrors HardwareMonitor's component semantics: no components means all hardware and uptime,
+ * 'all' means all hardware without uptime.
+ */
+function componentSet(components: ComponentType[] | undefined): ComponentSet {
+  if (!components || components.length === 0) return {hardware: 'all', uptime: true};
+  const lower = components.map(component => component.toLowerCase());
+  const hardware = lower.includes('all') ? 'all' : new Set(lower.filter(component => component !== 'uptime'));
+  return {hardware, uptime: lower.includes('uptime')};
+}
+
+/**
+ * Checks whether a report read for `available` contains everything `requested` asks for.
+ * @param available Components the report was read with.
+ * @param requested Components a caller asked for.
+ */
+export function coversComponents(
+  available: ComponentType[] | undefined,
+  requested: ComponentType[] | undefined,
+): boolean {
+  const have = componentSet(available);
+  const want = componentSet(requested);
+  if (want.uptime && !have.uptime) return false;
+  if (have.hardware === 'all') return true;
+  if (want.hardware === 'all') return false;
+  const haveHardware = have.hardware;
+  return [...want.hardware].every(component => haveHardware.has(component));
+}
+
+/**
+ * Smallest component list covering all requests.
+ * @param requests Components of each request.
+ */
+function unionComponents(requests: (ComponentType[] | undefined)[]): ComponentType[] | undefined {
+  const sets = requests.map(componentSet);
+  const uptime = sets.some(set => set.uptime);
+  if (sets.some(set => set.hardware === 'all')) {
+    if (uptime && requests.some(components => !components || components.length === 0)) return undefined;
+    return uptime ? ['all', 'uptime'] : ['all'];
+  }
+  const hardware = new Set(sets.flatMap(set => [...(set.hardware as Set<string>)]));
+  return [...hardware, ...(uptime ? ['uptime'] : [])];
+}
+
+/**
+ * Copies the requested components out of a shared report, so callers can modify their report freely.
+ * @param report A report covering the request.
+ * @param components Components the caller asked for.
+ */
+export function selectComponents(report: HardwareReport, components: ComponentType[] | undefined): HardwareReport {
+  const want = componentSet(components);
+  const selected = structuredClone(
+    want.hardware === 'all' ? report : filterReportComponents(report, components as ComponentType[]),
+  );
+  if (!want.uptime) {
+    delete selected.Uptime;
+    delete selected.ElapsedTime;
+  }
+  return selected;
+}
+
+function timeoutError(timeoutMs: number): MonitorError {
+  const err: MonitorError = new Error(`Timed out after ${timeoutMs}ms waiting for hardware data.`) as MonitorError;
+  err.type = 'timeout_error';
+  return err;
+}
+
+/**
+ * Serves getDataOnce() calls with as few CLI processes as possible. In order, a call is answered from:
+ * the running timed stream when it covers the requested components, the last report when it is younger
+ * than the TTL, a read already in flight that covers the request, or a new read shared with every call
+ * made in the same tick (covering the union of their components).
+ */
+export class OnceCoalescer {
+  private readonly read: OnceReader;
+  private readonly ttlMs: number;
+  private cached: CachedReport | null = null;
+  private readonly inFlight = new Set<InFlightRead>();
+  private queue: QueuedRequest[] = [];
+  private flushScheduled: boolean = false;
+  private timedComponents: ComponentType[] | undefined | null = null;
+  private latestTimed: HardwareReport | null = null;
+  private timedWaiters: TimedWaiter[] = [];
+
+  /**
+   * @param read Reads a report; called once per batch of coalesced calls.
+   * @param ttlMs How long a report may be reused. 0 disables the cache.
+   */
+  constructor(read: OnceReader, ttlMs: number) {
+    this.read = read;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Returns a report for the given components, sharing work with other calls where possible.
+   * @param components Requested components; empty or undefined means all (including uptime).
+   * @param timeoutMs Time limit for this call.
+   * @param signal Aborts this call. A shared read is aborted only when all of its callers have aborted.
+   */
+  public get(
+    components: ComponentType[] | undefined,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<HardwareReport> {
+    if (signal?.aborted) return Promise.reject(createAbortError(signal, 'getDataOnce'));
+
+    if (this.timedComponents !== null && coversComponents(this.timedComponents, components)) {
+      if (this.latestTimed) return Promise.resolve(selectComponents(this.latestTimed, components));
+      return new Promise((resolve, reject) => {
+        const remove = (err: Error) => {
+          this.timedWaiters = this.timedWaiters.filter(other => other !== waiter);
+          this.releaseWaiter(waiter);
+          reject(err);
+        };
+        const waiter: TimedWaiter = {
+          components,
+          timeoutMs,
+          signal,
+          resolve,
+          reject,
+          timer: setTimeout(() => remove(timeoutError(timeoutMs)), timeoutMs),
+        };
+        if (signal) {
+          waiter.onAbort = () => remove(createAbortError(signal, 'getDataOnce'));
+          signal.addEventListener('abort', waiter.onAbort, {once: true});
+        }
+        this.timedWaiters.push(waiter);
+      });
+    }
+
+    const cached = this.cached;
+    if (cached && Date.now() - cached.at <= this.ttlMs && coversComponents(cached.components, components)) {
+      return Promise.resolve(selectComponents(cached.report, components));
+    }
+
+    for (const read of this.inFlight) {
+      if (coversComponents(read.components, components)) {
+        return this.attach(read, timeoutMs, signal).then(report => selectComponents(report, components));
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({components, timeoutMs, signal, resolve, reject});
+      if (this.flushScheduled) return;
+      this.flushScheduled = true;
+      setImmediate(() => this.flush());
+    });
+  }
+
+  /**
+   * Keeps a copy of a report read outside of the coalescer, e.g. by a call that bypassed it, for later calls.
+   * @param report The finalized report; the caller keeps ownership of it.
+   * @param components Components it was read with.
+   */
+  public store(report: HardwareReport, components: ComponentType[] | undefined): void {
+    if (this.ttlMs > 0) this.cached = {report: structuredClone(report), components, at: Date.now()};
+  }
+
+  /**
+   * Serves covered calls from timed reports from now on.
+   * @param components Components of the timed session.
+   */
+  public timedStarted(components: ComponentType[] | undefined): void {
+    this.timedComponents = components;
+    this.latestTimed = null;
+  }
+
+  /**
+   * Passes a report of the timed session to waiting calls and keeps a copy for later ones.
+   * @param report The finalized report, without unit conversion. It is also emitted as 'data', so listeners may
+   *   modify it afterwards.
+   */
+  public offerTimed(report: HardwareReport): void {
+    if (this.timedComponents === null) return;
+    const copy = structuredClone(report);
+    this.latestTimed = copy;
+    if (this.ttlMs > 0) this.cached = {report: copy, components: this.timedComponents, at: Date.now()};
+    const waiters = this.timedWaiters;
+    this.timedWaiters = [];
+    for (const waiter of waiters) {
+      this.releaseWaiter(waiter);
+      waiter.resolve(selectComponents(copy, waiter.components));
+    }
+  }
+
+  /** Stops serving from timed reports; calls still waiting for one are read instead. */
+  public timedStopped(): void {
+    this.timedComponents = null;
+    this.latestTimed = null;
+    const waiters = this.timedWaiters;
+    this.timedWaiters = [];
+    for (const waiter of waiters) {
+      this.releaseWaiter(waiter);
+      this.get(waiter.components, waiter.timeoutMs, waiter.signal).then(waiter.resolve, waiter.reject);
+    }
+  }
+
+  private flush(): void {
+    this.flushScheduled = false;
+    const batch = this.queue.filter(request => {
+      if (!request.signal?.aborted) return true;
+      request.reject(createAbortError(request.signal, 'getDataOnce'));
+      return false;
+    });
+    this.queue = [];
+    if (batch.length === 0) return;
+
+    const components = unionComponents(batch.map(request => request.components));
+    const timeoutMs = Math.max(...batch.map(request => request.timeoutMs));
+    const controller = new AbortController();
+    const read: InFlightRead = {
+      components,
+      promise: this.read(components, timeoutMs, controller.signal),
+      controller,
+      holders: 0,
+    };
+    this.inFlight.add(read);
+    read.promise.then(
+      report => {
+        this.inFlight.delete(read);
+        this.store(report, components);
+      },
+      () => this.inFlight.delete(read),
+    );
+
+    for (const request of batch) {
+      this.attach(read, request.timeoutMs, request.signal)
+        .then(report => selectComponents(report, request.components))
+        .then(request.resolve, request.reject);
+    }
+  }
+
+  private releaseWaiter(waiter: TimedWaiter): void {
+    clearTimeout(waiter.timer);
+    if (waiter.onAbort) waiter.signal?.removeEventListener('abort', waiter.onAbort);
+  }
+
+  /**
+   * Drops one caller of a shared read. The last one to leave aborts the read, which from then on is not
+   * offered to new calls.
+   * @param read The shared read.
+   * @param reason Abort reason passed to the reader.
+   */
+  private detach(read: InFlightRead, reason: unknown): void {
+    if (--read.holders > 0) return;
+    this.inFlight.delete(read);
+    read.controller.abort(reason);
+  }
+
+  /**
+   * Waits for a shared read on behalf of one caller. Rejects with a timeout_error if the read takes longer
+   * than this caller allows, or with the abort error if its signal aborts; the read itself is aborted once
+   * no caller is left waiting for it.
+   */
+  private attach(read: InFlightRead, timeoutMs: number, signal?: AbortSignal): Promise<HardwareReport> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(createAbortError(signal, 'getDataOnce'));
+      read.holders++;
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.detach(read, signal!.reason);
+        reject(createAbortError(signal!, 'getDataOnce'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        const err = timeoutError(timeoutMs);
+        this.detach(read, err);
+        reject(err);
+      }, timeoutMs);
+      signal?.addEventListener('abort', onAbort, {once: true});
+      read.promise.then(
+        report => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(report);
+        },
+        err => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          reject(err);
+        },
+      );
+    });
+  }
+}
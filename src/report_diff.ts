@@ -0,0 +1,180 @@
+import type {HardwareItemInfo, HardwareReport} from './index.js';
+import {flattenReport, REPORT_CATEGORIES, ReportCategory, SensorEntry} from './sensor_query.js';
+
+export type DiffOptions = {
+  /** Minimum absolute change per sensor Type to be reported, e.g. `{Temperature: 0.5, Load: 1}`. */
+  deadbands?: Record<string, number>;
+  /** Dead-band for sensor types not listed in `deadbands`. Defaults to 0 (any change). */
+  defaultDeadband?: number;
+};
+
+/** Plain-data description of a sensor, cheap to serialise over IPC. */
+export type SensorSnapshot = {
+  identifier: string;
+  name: string;
+  type: string;
+  unit: string;
+  value: number | null;
+  hardwareName: string;
+  category: ReportCategory;
+  path: string[];
+};
+
+export type SensorChange = Omit<SensorSnapshot, 'value'> & {
+  oldValue: number | null;
+  newValue: number | null;
+};
+
+export type HardwareSnapshot = {
+  /** `category/name/sub-name`, stable across reports. */
+  key: string;
+  name: string;
+  hardwareType: string;
+  category: ReportCategory;
+  path: string[];
+};
+
+export type ReportDiff = {
+  /** Timestamp of the newer report. */
+  timestamp: string;
+  changed: SensorChange[];
+  addedSensors: SensorSnapshot[];
+  removedSensors: SensorSnapshot[];
+  addedHardware: HardwareSnapshot[];
+  removedHardware: HardwareSnapshot[];
+};
+
+function toSensorSnapshot(entry: SensorEntry): SensorSnapshot {
+  return {
+    identifier: entry.sensor.Identifier,
+    name: entry.sensor.Name,
+    type: entry.sensor.Type,
+    unit: entry.sensor.Unit,
+    value: entry.sensor.Value,
+    hardwareName: entry.hardware.Name,
+    category: entry.category,
+    path: entry.path,
+  };
+}
+
+function collectHardware(report: HardwareReport): Map<string, HardwareSnapshot> {
+  const hardware = new Map<string, HardwareSnapshot>();
+
+  const walk = (item: HardwareItemInfo, category: ReportCategory, parentPath: string[]) => {
+    const path = [...parentPath, item.Name];
+    const key = [category, ...path].join('/');
+    if (!hardware.has(key)) {
+      hardware.set(key, {key, name: item.Name, hardwareType: item.HardwareType, category, path});
+    }
+    for (const sub of item.SubHardware || []) walk(sub, category, path);
+  };
+
+  for (const category of REPORT_CATEGORIES) {
+    for (const item of report[category] || []) walk(item, category, []);
+  }
+  return hardware;
+}
+
+/**
+ * True if the diff contains no changes at all.
+ * @param diff The diff to check.
+ */
+export function isEmptyDiff(diff: ReportDiff): boolean {
+  return (
+    diff.changed.length === 0 &&
+    diff.addedSensors.length === 0 &&
+    diff.removedSensors.length === 0 &&
+    diff.addedHardware.length === 0 &&
+    diff.removedHardware.length === 0
+  );
+}
+
+/**
+ * Tracks consecutive reports and produces diffs against the last reported state.
+ * With a dead-band, a sensor is compared against the value it had when last reported as changed,
+ * so slow drifts are still reported once they add up to the dead-band.
+ */
+export class ChangeTracker {
+  private readonly options: DiffOptions;
+  private sensors = new Map<string, SensorSnapshot>();
+  private hardware = new Map<string, HardwareSnapshot>();
+
+  constructor(options: DiffOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Compares a report with the tracked state and updates the state.
+   * The first report yields every sensor and hardware item as added.
+   * @param report The next report.
+   */
+  public update(report: HardwareReport): ReportDiff {
+    const diff: ReportDiff = {
+      timestamp: report.Timestamp,
+      changed: [],
+      addedSensors: [],
+      removedSensors: [],
+      addedHardware: [],
+      removedHardware: [],
+    };
+
+    const nextHardware = collectHardware(report);
+    for (const [key, item] of nextHardware) {
+      if (!this.hardware.has(key)) diff.addedHardware.push(item);
+    }
+    for (const [key, item] of this.hardware) {
+      if (!nextHardware.has(key)) diff.removedHardware.push(item);
+    }
+    this.hardware = nextHardware;
+
+    const nextSensors = new Map<string, SensorSnapshot>();
+    for (const entry of flattenReport(report)) {
+      const current = toSensorSnapshot(entry);
+      if (nextSensors.has(current.identifier)) continue;
+
+      const baseline = this.sensors.get(current.identifier);
+      if (!baseline) {
+        diff.addedSensors.push(current);
+        nextSensors.set(current.identifier, current);
+      } else if (this.hasChanged(current.type, baseline.value, current.value)) {
+        const {value, ...details} = current;
+        diff.changed.push({...details, oldValue: baseline.value, newValue: value});
+        nextSensors.set(current.identifier, current);
+      } else {
+        // Keep the baseline value so changes below the dead-band can accumulate
+        nextSensors.set(current.identifier, {...current, value: baseline.value});
+      }
+    }
+    for (const [identifier, sensor] of this.sensors) {
+      if (!nextSensors.has(identifier)) diff.removedSensors.push(sensor);
+    }
+    this.sensors = nextSensors;
+
+    return diff;
+  }
+
+  /** Forgets the tracked state; the next update reports everything as added. */
+  public reset(): void {
+    this.sensors.clear();
+    this.hardware.clear();
+  }
+
+  private hasChanged(type: string, oldValue: number | null, newValue: number | null): boolean {
+    if (oldValue === null || newValue === null) return oldValue !== newValue;
+    const deadband = this.options.deadbands?.[type] ?? this.options.defaultDeadband ?? 0;
+    if (deadband <= 0) return oldValue !== newValue;
+    return Math.abs(newValue - oldValue) >= deadband;
+  }
+}
+
+/**
+ * Compares two reports.
+ * @param previous The older report, or null to report everything in `next` as added.
+ * @param next The newer report.
+ * @param options Dead-band options.
+ */
+export function diffReports(previous: HardwareReport | null, next: HardwareReport, options?: DiffOptions): ReportDiff {
+  const tracker = new ChangeTracker(options);
+  if (previous) tracker.update(previous);
+  return tracker.update(next);
+}
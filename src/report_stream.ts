@@ -0,0 +1,65 @@
+/**
+ * Bounded push/pull queue bridging event-driven producers to async iteration.
+ * When the consumer falls behind, the oldest queued items are dropped so it always sees the newest data.
+ */
+export class ReportQueue<T> {
+  private readonly highWaterMark: number;
+  private readonly items: T[] = [];
+  private waiters: {resolve: (result: IteratorResult<T>) => void; reject: (error: unknown) => void}[] = [];
+  private ended: boolean = false;
+  private failure: unknown = null;
+
+  constructor(highWaterMark: number = 16) {
+    this.highWaterMark = Math.max(1, highWaterMark);
+  }
+
+  /** Number of items waiting to be consumed. */
+  public get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Hands an item to a waiting consumer or queues it.
+   * @param item The item to deliver.
+   */
+  public push(item: T): void {
+    if (this.ended) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({value: item, done: false});
+      return;
+    }
+    this.items.push(item);
+    if (this.items.length > this.highWaterMark) this.items.shift();
+  }
+
+  /**
+   * Ends the queue. Queued items are still delivered before the end (or the error) is observed.
+   * @param error Optional error that the consumer receives as a rejection.
+   */
+  public end(error?: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+    this.failure = error ?? null;
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const waiter of waiters) {
+      if (this.failure) waiter.reject(this.failure);
+      else waiter.resolve({value: undefined, done: true});
+    }
+  }
+
+  /** Resolves with the next item, or rejects once the queue has ended with an error. */
+  public next(): Promise<IteratorResult<T>> {
+    if (this.items.length > 0) return Promise.resolve({value: this.items.shift()!, done: false});
+    if (this.ended) {
+      if (this.failure) {
+        const failure = this.failure;
+        this.failure = null;
+        return Promise.reject(failure);
+      }
+      return Promise.resolve({value: undefined, done: true});
+    }
+    return new Promise((resolve, reject) => this.waiters.push({resolve, reject}));
+  }
+}
@@ -0,0 +1,345 @@
+import {execFile} from 'node:child_process';
+import fsPromises from 'node:fs/promises';
+import originalFs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {promisify} from 'node:util';
+import type {MonitorError} from './index.js';
+import type {MonitorLogger} from './logger.js';
+
+const execFileAsync = promisify(execFile);
+const DOTNET_COMMAND_TIMEOUT_MS = 15000;
+const REQUIRED_RUNTIME_NAME = 'Microsoft.NETCore.App';
+const REQUIRED_RUNTIME_MAJOR = 10;
+
+export type DotNetHostSource = 'option' | 'DOTNET_ROOT' | 'PATH' | 'default';
+
+export type DotNetRuntime = {
+  /** Runtime name, e.g. 'Microsoft.NETCore.App' or 'Microsoft.WindowsDesktop.App'. */
+  name: string;
+  version: string;
+  major: number;
+  /** Installation folder as listed by `dotnet --list-runtimes`. */
+  path: string;
+  /** Architecture of the runtime, taken from the host, or null if unknown. */
+  architecture: string | null;
+};
+
+export type DotNetDiagnostics = {
+  /** The dotnet executable that was queried, or null if none was found. */
+  hostPath: string | null;
+  /** Where hostPath came from. */
+  hostSource: DotNetHostSource | null;
+  /** Architecture reported by `dotnet --info`, e.g. 'x64' or 'arm64'. */
+  hostArchitecture: string | null;
+  /** Every runtime from `dotnet --list-runtimes`. */
+  runtimes: DotNetRuntime[];
+  /** The runtime satisfying the requirement, if any. */
+  requiredRuntime: DotNetRuntime | null;
+  /** Error running the host, if it could not be queried. */
+  error: string | null;
+};
+
+export type RequirementsFailureCode =
+  | 'unsupported_platform'
+  | 'unsupported_arch'
+  | 'dotnet_not_found'
+  | 'dotnet_failed'
+  | 'runtime_missing'
+  | 'runtime_arch_mismatch'
+  | 'cli_download_failed';
+
+export type RequirementsFailure = {
+  code: RequirementsFailureCode;
+  message: string;
+  /** What the user can do about it. */
+  hint: string;
+};
+
+export type CliInstallInfo = {
+  /** Release tag of the installed CLI, taken from its version directory. */
+  version: string;
+  directory: string;
+  executablePath: string;
+};
+
+export type RequirementsReport = {
+  /** True when there are no failures. */
+  ok: boolean;
+  /** Name of the backend the report is for. */
+  backend: string;
+  platform: NodeJS.Platform;
+  arch: string;
+  /** Platform part of the CLI asset name ('win', 'osx' or 'linux'), or null if unsupported. */
+  osIdentifier: string | null;
+  /** Architecture part of the CLI asset name ('x64' or 'arm64'), or null if unsupported. */
+  archIdentifier: string | null;
+  /** Required runtime, e.g. 'Microsoft.NETCore.App 10.x'. Null for backends without .NET. */
+  requiredRuntime: string | null;
+  /** .NET host and runtime details, or null for backends without .NET. */
+  dotnet: DotNetDiagnostics | null;
+  /** The CLI in use, or null if none is installed yet. */
+  cli: CliInstallInfo | null;
+  failures: RequirementsFailure[];
+};
+
+/** Thrown by checkRequirements(); `report` describes everything that was checked. */
+export type RequirementsError = MonitorError & {
+  type: 'requirements_error';
+  report: RequirementsReport;
+};
+
+/**
+ * Maps the current platform to the identifier used in CLI asset names.
+ * @returns 'win', 'osx', 'linux', or null if the CLI is not published for it.
+ */
+export function getOsIdentifier(platform: NodeJS.Platform = os.platform()): string | null {
+  return platform === 'win32' ? 'win' : platform === 'darwin' ? 'osx' : platform === 'linux' ? 'linux' : null;
+}
+
+/**
+ * Maps the current architecture to the identifier used in CLI asset names.
+ * @returns 'x64', 'arm64', or null if the CLI is not published for it.
+ */
+export function getArchIdentifier(arch: string = os.arch()): string | null {
+  return arch === 'x64' || arch === 'arm64' ? arch : null;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    await fsPromises.access(filePath, originalFs.constants.X_OK);
+    return (await fsPromises.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Finds the dotnet executable the same way the CLI's app host does: an explicit path first, then
+ * DOTNET_ROOT_<ARCH>/DOTNET_ROOT, then PATH, then the default install locations.
+ * @param dotnetPath Explicit dotnet executable, or the folder containing it.
+ */
+export async function resolveDotNetHost(
+  dotnetPath?: string,
+): Promise<{hostPath: string; hostSource: DotNetHostSource} | null> {
+  const exeName = os.platform() === 'win32' ? 'dotnet.exe' : 'dotnet';
+  const inFolder = async (folder: string) => {
+    const candidate = path.join(folder, exeName);
+    return (await isFile(candidate)) ? candidate : null;
+  };
+
+  if (dotnetPath) {
+    const resolved = path.resolve(dotnetPath);
+    const hostPath = (await isFile(resolved)) ? resolved : await inFolder(resolved);
+    // An explicit path that doesn't exist is reported as not found rather than silently ignored
+    return hostPath ? {hostPath, hostSource: 'option'} : null;
+  }
+
+  const dotnetRoot = process.env[`DOTNET_ROOT_${os.arch().toUpperCase()}`] || process.env.DOTNET_ROOT;
+  if (dotnetRoot) {
+    const hostPath = await inFolder(dotnetRoot);
+    if (hostPath) return {hostPath, hostSource: 'DOTNET_ROOT'};
+  }
+
+  for (const folder of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+    const hostPath = await inFolder(folder);
+    if (hostPath) return {hostPath, hostSource: 'PATH'};
+  }
+
+  const defaultFolders =
+    os.platform() === 'win32'
+      ? [path.join(process.env.ProgramFiles ?? 'C:\\Program Files', 'dotnet')]
+      : os.platform() === 'darwin'
+        ? ['/usr/local/share/dotnet', '/usr/local/share/dotnet/x64']
+        : ['/usr/share/dotnet', '/usr/lib/dotnet', '/usr/local/share/dotnet', path.join(os.homedir(), '.dotnet')];
+  for (const folder of defaultFolders) {
+    const hostPath = await inFolder(folder);
+    if (hostPath) return {hostPath, hostSource: 'default'};
+  }
+  return null;
+}
+
+/**
+ * Parses `dotnet --list-runtimes` output, e.g.
+ * "Microsoft.NETCore.App 10.0.1 [/usr/share/dotnet/shared/Microsoft.NETCore.App]".
+ * @param output The command output.
+ * @param hostArchitecture Architecture of the host that listed the runtimes.
+ */
+export function parseDotNetRuntimes(output: string, hostArchitecture: string | null = null): DotNetRuntime[] {
+  const runtimes: DotNetRuntime[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = /^(\S+)\s+(\d+)\.(\d+)\.(\S+)\s+\[(.+)]\s*$/.exec(line.trim());
+    if (!match) continue;
+    const [, name, major, minor, rest, runtimePath] = match;
+    // x64 runtimes installed side by side on arm64 machines live in an 'x64' folder
+    const pathArch = /[\\/](x64|x86|arm64)[\\/]/i.exec(runtimePath)?.[1]?.toLowerCase();
+    runtimes.push({
+      name,
+      version: `${major}.${minor}.${rest}`,
+      major: Number(major),
+      path: runtimePath,
+      architecture: pathArch ?? hostArchitecture,
+    });
+  }
+  return runtimes;
+}
+
+/**
+ * Queries the dotnet host for its architecture and installed runtimes.
+ * @param dotnetPath Explicit dotnet executable or folder; DOTNET_ROOT and PATH are used otherwise.
+ * @param logger Receives debug entries for the commands run.
+ * @param signal Kills the dotnet commands when aborted; the diagnostics then report the command error.
+ */
+export async function diagnoseDotNet(
+  dotnetPath?: string,
+  logger?: MonitorLogger,
+  signal?: AbortSignal,
+): Promise<DotNetDiagnostics> {
+  const startedAt = Date.now();
+  const diagnostics: DotNetDiagnostics = {
+    hostPath: null,
+    hostSource: null,
+    hostArchitecture: null,
+    runtimes: [],
+    requiredRuntime: null,
+    error: null,
+  };
+
+  const host = await resolveDotNetHost(dotnetPath);
+  if (!host) {
+    logger?.debug('The dotnet host was not found.', {component: 'dotnet'});
+    return diagnostics;
+  }
+  diagnostics.hostPath = host.hostPath;
+  diagnostics.hostSource = host.hostSource;
+
+  try {
+    const {stdout: info} = await execFileAsync(host.hostPath, ['--info'], {
+      timeout: DOTNET_COMMAND_TIMEOUT_MS,
+      signal,
+    });
+    diagnostics.hostArchitecture = /^\s*Architecture:\s*(\S+)/im.exec(info)?.[1]?.toLowerCase() ?? null;
+  } catch {
+    // Older hosts without an SDK may not support --info; the runtime list is what matters
+  }
+
+  try {
+    const {stdout} = await execFileAsync(host.hostPath, ['--list-runtimes'], {
+      timeout: DOTNET_COMMAND_TIMEOUT_MS,
+      signal,
+    });
+    diagnostics.runtimes = parseDotNetRuntimes(stdout, diagnostics.hostArchitecture);
+  } catch (error) {
+    diagnostics.error = (error as Error).message;
+    logger?.debug(`Running '${host.hostPath} --list-runtimes' failed: ${diagnostics.error}`, {
+      component: 'dotnet',
+      durationMs: Date.now() - startedAt,
+    });
+    return diagnostics;
+  }
+
+  const candidates = diagnostics.runtimes
+    .filter(runtime => runtime.name === REQUIRED_RUNTIME_NAME && runtime.major === REQUIRED_RUNTIME_MAJOR)
+    .sort((a, b) => b.version.localeCompare(a.version, undefined, {numeric: true}));
+  diagnostics.requiredRuntime = candidates[0] ?? null;
+  logger?.debug(`Found ${diagnostics.runtimes.length} .NET runtimes using ${host.hostPath} (${host.hostSource})`, {
+    component: 'dotnet',
+    version: diagnostics.requiredRuntime?.version,
+    durationMs: Date.now() - startedAt,
+  });
+  return diagnostics;
+}
+
+/**
+ * Builds a requirements report for the CLI backend, listing every failure with a hint.
+ * @param dotnet Result of diagnoseDotNet().
+ * @param cli The installed CLI, if known.
+ */
+export function buildCliRequirementsReport(dotnet: DotNetDiagnostics, cli: CliInstallInfo | null): RequirementsReport {
+  const platform = os.platform();
+  const arch = os.arch();
+  const osIdentifier = getOsIdentifier(platform);
+  const archIdentifier = getArchIdentifier(arch);
+  const failures: RequirementsFailure[] = [];
+  const requiredRuntime = `${REQUIRED_RUNTIME_NAME} ${REQUIRED_RUNTIME_MAJOR}.x`;
+  const downloadUrl = `https://dotnet.microsoft.com/download/dotnet/${REQUIRED_RUNTIME_MAJOR}.0`;
+
+  if (!osIdentifier) {
+    failures.push({
+      code: 'unsupported_platform',
+      message: `The CLI is not available for platform '${platform}'.`,
+      hint: 'Use Windows, macOS or Linux, or a different backend.',
+    });
+  }
+  if (!archIdentifier) {
+    failures.push({
+      code: 'unsupported_arch',
+      message: `The CLI is not available for architecture '${arch}'.`,
+      hint: 'Use an x64 or arm64 build of Node.js.',
+    });
+  }
+
+  if (!dotnet.hostPath) {
+    failures.push({
+      code: 'dotnet_not_found',
+      message: 'The dotnet host was not found.',
+      hint:
+        `Install the .NET ${REQUIRED_RUNTIME_MAJOR}.0 runtime from ${downloadUrl}, ` +
+        'or set DOTNET_ROOT or the dotnetPath option.',
+    });
+  } else if (dotnet.error) {
+    failures.push({
+      code: 'dotnet_failed',
+      message: `Running '${dotnet.hostPath} --list-runtimes' failed: ${dotnet.error}`,
+      hint: 'Check that the dotnet installation is complete and runnable by this user.',
+    });
+  } else if (!dotnet.requiredRuntime) {
+    const installed = dotnet.runtimes
+      .filter(runtime => runtime.name === REQUIRED_RUNTIME_NAME)
+      .map(runtime => runtime.version);
+    failures.push({
+      code: 'runtime_missing',
+      message:
+        `${requiredRuntime} is not installed for ${dotnet.hostPath}.` +
+        (installed.length > 0 ? ` Installed: ${installed.join(', ')}.` : ' No .NET runtimes are installed.'),
+      hint: `Install the .NET ${REQUIRED_RUNTIME_MAJOR}.0 runtime from ${downloadUrl}.`,
+    });
+  } else {
+    const runtimeArch = dotnet.requiredRuntime.architecture;
+    if (archIdentifier && runtimeArch && runtimeArch !== archIdentifier) {
+      failures.push({
+        code: 'runtime_arch_mismatch',
+        message: `The installed .NET runtime is ${runtimeArch}, but the ${archIdentifier} CLI is used.`,
+        hint: `Install the ${archIdentifier} .NET ${REQUIRED_RUNTIME_MAJOR}.0 runtime or a ${runtimeArch} Node.js.`,
+      });
+    }
+  }
+
+  return {
+    ok: failures.length === 0,
+    backend: 'cli',
+    platform,
+    arch,
+    osIdentifier,
+    archIdentifier,
+    requiredRuntime,
+    dotnet,
+    cli,
+    failures,
+  };
+}
+
+/**
+ * Creates the error thrown by checkRequirements() for a failed report.
+ * @param report The report, whose first failure becomes the message.
+ * @param cause The underlying error, if any.
+ */
+export function createRequirementsError(report: RequirementsReport, cause?: unknown): RequirementsError {
+  const [first] = report.failures;
+  const message = first ? `${first.message} ${first.hint}` : 'Requirements check failed.';
+  const err = new Error(message, cause ? {cause} : undefined) as RequirementsError;
+  err.type = 'requirements_error';
+  err.report = report;
+  err.rawError = cause;
+  return err;
+}
@@ -0,0 +1,231 @@
+import type {HardwareReport} from './index.js';
+import {flattenReport} from './sensor_query.js';
+
+export type HistoryOptions = {
+  /** Maximum samples kept per sensor; `Infinity` for no limit. Defaults to 600, or unlimited when `maxAgeMs` is set. */
+  maxSamples?: number;
+  /** Samples older than this (relative to the newest report) are dropped. Unlimited by default. */
+  maxAgeMs?: number;
+};
+
+export type SensorSample = {
+  /** Report timestamp in epoch milliseconds. */
+  timestamp: number;
+  value: number;
+};
+
+export type HistoryRange = {
+  /** Inclusive lower bound, epoch milliseconds or Date. */
+  from?: number | Date;
+  /** Inclusive upper bound, epoch milliseconds or Date. */
+  to?: number | Date;
+  /** Only the newest N samples (applied after from/to). */
+  last?: number;
+};
+
+export type SensorStats = {
+  identifier: string;
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  last: number;
+  from: number;
+  to: number;
+  /** Keyed by the requested percentile, e.g. `{50: 41.5, 95: 63}`. */
+  percentiles: Record<number, number>;
+};
+
+const DEFAULT_MAX_SAMPLES = 600;
+const DEFAULT_PERCENTILES = [50, 90, 95, 99];
+const INITIAL_RING_SIZE = 16;
+
+/**
+ * FIFO that overwrites the oldest entry once `capacity` is reached. Storage grows on demand, so
+ * sensors that have few samples (or an unlimited capacity) only hold what they recorded.
+ */
+class SampleRing {
+  private readonly capacity: number;
+  private items: (SensorSample | undefined)[];
+  private start = 0;
+  private length = 0;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.items = new Array(Math.min(capacity, INITIAL_RING_SIZE));
+  }
+
+  public get size(): number {
+    return this.length;
+  }
+
+  public push(sample: SensorSample): void {
+    if (this.length === this.items.length) {
+      if (this.items.length < this.capacity) {
+        this.grow();
+      } else {
+        this.items[this.start] = sample;
+        this.start = (this.start + 1) % this.items.length;
+        return;
+      }
+    }
+    this.items[(this.start + this.length) % this.items.length] = sample;
+    this.length++;
+  }
+
+  public at(offset: number): SensorSample {
+    return this.items[(this.start + offset) % this.items.length]!;
+  }
+
+  /** Drops samples from the oldest end while they are older than `cutoff`. */
+  public dropOlderThan(cutoff: number): void {
+    while (this.length > 0 && this.items[this.start]!.timestamp < cutoff) {
+      this.items[this.start] = undefined;
+      this.start = (this.start + 1) % this.items.length;
+      this.length--;
+    }
+  }
+
+  private grow(): void {
+    const items: (SensorSample | undefined)[] = new Array(Math.min(this.capacity, this.items.length * 2));
+    for (let i = 0; i < this.length; i++) items[i] = this.at(i);
+    this.items = items;
+    this.start = 0;
+  }
+
+  public toArray(): SensorSample[] {
+    const result: SensorSample[] = [];
+    for (let i = 0; i < this.length; i++) result.push(this.at(i));
+    return result;
+  }
+}
+
+function toEpoch(value: number | Date | undefined): number | undefined {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const rank = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Bounded per-sensor history of report values, keyed by sensor Identifier.
+ * Sensors reporting a `null` Value are skipped for that report.
+ */
+export class SensorHistory {
+  private readonly maxSamples: number;
+  private readonly maxAgeMs?: number;
+  private readonly samples = new Map<string, SampleRing>();
+
+  constructor(options: HistoryOptions = {}) {
+    // A time window alone bounds the history; the count default only applies without one
+    const maxSamples = options.maxSamples ?? (options.maxAgeMs === undefined ? DEFAULT_MAX_SAMPLES : Infinity);
+    this.maxSamples = Math.max(1, Math.floor(maxSamples));
+    this.maxAgeMs = options.maxAgeMs;
+  }
+
+  /** Number of sensors currently tracked. */
+  public get size(): number {
+    return this.samples.size;
+  }
+
+  /** Identifiers of all tracked sensors. */
+  public identifiers(): string[] {
+    return [...this.samples.keys()];
+  }
+
+  /**
+   * Records every non-null sensor value of a report.
+   * @param report The report to record.
+   */
+  public add(report: HardwareReport): void {
+    const parsed = Date.parse(report.Timestamp);
+    const timestamp = Number.isNaN(parsed) ? Date.now() : parsed;
+
+    for (const {sensor} of flattenReport(report)) {
+      if (sensor.Value === null || !Number.isFinite(sensor.Value)) continue;
+      let ring = this.samples.get(sensor.Identifier);
+      if (!ring) {
+        ring = new SampleRing(this.maxSamples);
+        this.samples.set(sensor.Identifier, ring);
+      }
+      ring.push({timestamp, value: sensor.Value});
+    }
+
+    if (this.maxAgeMs !== undefined) this.prune(timestamp - this.maxAgeMs);
+  }
+
+  /**
+   * Returns recorded samples for a sensor, oldest first.
+   * @param identifier Sensor identifier.
+   * @param range Optional time range and/or sample count.
+   */
+  public getSamples(identifier: string, range: HistoryRange = {}): SensorSample[] {
+    const ring = this.samples.get(identifier);
+    if (!ring) return [];
+
+    const from = toEpoch(range.from) ?? -Infinity;
+    const to = toEpoch(range.to) ?? Infinity;
+    let result = ring.toArray().filter(sample => sample.timestamp >= from && sample.timestamp <= to);
+    if (range.last !== undefined) result = range.last > 0 ? result.slice(-range.last) : [];
+    return result;
+  }
+
+  /**
+   * Computes statistics for a sensor over a range.
+   * @param identifier Sensor identifier.
+   * @param range Optional time range and/or sample count.
+   * @param percentiles Percentiles (0-100) to compute. Defaults to 50, 90, 95 and 99.
+   * @returns The statistics, or null if there are no samples in the range.
+   */
+  public getStats(
+    identifier: string,
+    range: HistoryRange = {},
+    percentiles: number[] = DEFAULT_PERCENTILES,
+  ): SensorStats | null {
+    const samples = this.getSamples(identifier, range);
+    if (samples.length === 0) return null;
+
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    for (const {value} of samples) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+      sum += value;
+    }
+
+    const sorted = samples.map(sample => sample.value).sort((a, b) => a - b);
+    const percentileValues: Record<number, number> = {};
+    for (const p of percentiles) percentileValues[p] = percentile(sorted, p);
+
+    return {
+      identifier,
+      count: samples.length,
+      min,
+      max,
+      mean: sum / samples.length,
+      last: samples[samples.length - 1].value,
+      from: samples[0].timestamp,
+      to: samples[samples.length - 1].timestamp,
+      percentiles: percentileValues,
+    };
+  }
+
+  /** Removes all recorded samples. */
+  public clear(): void {
+    this.samples.clear();
+  }
+
+  private prune(cutoff: number): void {
+    for (const [identifier, ring] of this.samples) {
+      ring.dropOlderThan(cutoff);
+      // Forget sensors that have not reported within the window
+      if (ring.size === 0) this.samples.delete(identifier);
+    }
+  }
+}
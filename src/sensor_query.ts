@@ -0,0 +1,196 @@
+import type {HardwareItemInfo, HardwareReport, SensorInfo} from './index.js';
+
+/** Top-level hardware arrays of a HardwareReport. */
+export type ReportCategory =
+  'CPU' | 'GPU' | 'Memory' | 'Motherboard' | 'Storage' | 'Network' | 'Battery' | 'Controller' | 'Psu';
+
+export const REPORT_CATEGORIES: ReportCategory[] = [
+  'CPU',
+  'GPU',
+  'Memory',
+  'Motherboard',
+  'Storage',
+  'Network',
+  'Battery',
+  'Controller',
+  'Psu',
+];
+
+/** A sensor together with the hardware it belongs to. */
+export type SensorEntry = {
+  sensor: SensorInfo;
+  /** The hardware item (or sub-hardware item) that directly owns the sensor. */
+  hardware: HardwareItemInfo;
+  category: ReportCategory;
+  /** Hardware names from the top-level item down to the owning item. */
+  path: string[];
+};
+
+/**
+ * Criteria for selecting sensors. All given fields must match.
+ * String patterns for `name`, `hardwareName` and `path` are case-insensitive globs (`*` and `?`).
+ */
+export type SensorFilter = {
+  identifier?: string | RegExp;
+  category?: ReportCategory | ReportCategory[];
+  hardwareType?: string | string[];
+  type?: string | string[];
+  name?: string | RegExp;
+  hardwareName?: string | RegExp;
+  /** Matched against `[category, ...path].join('/')`, e.g. `'GPU/*NVIDIA*'`. */
+  path?: string | RegExp;
+};
+
+/**
+ * Converts a glob pattern into a case-insensitive, fully anchored regular expression.
+ * @param pattern Glob with `*` (any run of characters) and `?` (single character).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (const char of pattern) {
+    if (char === '*') source += '.*';
+    else if (char === '?') source += '.';
+    else source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function matchesPattern(value: string, pattern: string | RegExp | undefined): boolean {
+  if (pattern === undefined) return true;
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(value);
+  }
+  return globToRegExp(pattern).test(value);
+}
+
+function matchesOneOf(value: string, expected: string | string[] | undefined): boolean {
+  if (expected === undefined) return true;
+  const list = Array.isArray(expected) ? expected : [expected];
+  return list.some(item => item.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Checks whether a sensor entry satisfies a filter.
+ * @param entry The entry to check.
+ * @param filter The filter criteria.
+ */
+export function matchesSensorFilter(entry: SensorEntry, filter: SensorFilter): boolean {
+  if (filter.identifier !== undefined) {
+    if (typeof filter.identifier === 'string') {
+      if (entry.sensor.Identifier !== filter.identifier) return false;
+    } else if (!matchesPattern(entry.sensor.Identifier, filter.identifier)) {
+      return false;
+    }
+  }
+
+  return (
+    matchesOneOf(entry.category, filter.category) &&
+    matchesOneOf(entry.hardware.HardwareType, filter.hardwareType) &&
+    matchesOneOf(entry.sensor.Type, filter.type) &&
+    matchesPattern(entry.sensor.Name, filter.name) &&
+    matchesPattern(entry.hardware.Name, filter.hardwareName) &&
+    matchesPattern([entry.category, ...entry.path].join('/'), filter.path)
+  );
+}
+
+/**
+ * Flattens a report into a list of sensor entries, walking nested SubHardware.
+ * @param report The report to flatten.
+ * @returns Entries in report order (parents before their sub-hardware).
+ */
+export function flattenReport(report: HardwareReport): SensorEntry[] {
+  const entries: SensorEntry[] = [];
+
+  const walk = (item: HardwareItemInfo, category: ReportCategory, parentPath: string[]) => {
+    const path = [...parentPath, item.Name];
+    for (const sensor of item.Sensors || []) {
+      entries.push({sensor, hardware: item, category, path});
+    }
+    for (const sub of item.SubHardware || []) {
+      walk(sub, category, path);
+    }
+  };
+
+  for (const category of REPORT_CATEGORIES) {
+    for (const item of report[category] || []) {
+      walk(item, category, []);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Flattened, identifier-keyed view of a single HardwareReport.
+ */
+export class SensorIndex {
+  public readonly report: HardwareReport;
+  private readonly entries: SensorEntry[];
+  private readonly byIdentifier = new Map<string, SensorEntry>();
+
+  constructor(report: HardwareReport) {
+    this.report = report;
+    this.entries = flattenReport(report);
+    for (const entry of this.entries) {
+      // Keep the first occurrence if the CLI ever reports a duplicate identifier
+      if (!this.byIdentifier.has(entry.sensor.Identifier)) {
+        this.byIdentifier.set(entry.sensor.Identifier, entry);
+      }
+    }
+  }
+
+  /** Number of sensors in the report. */
+  public get size(): number {
+    return this.entries.length;
+  }
+
+  /** All sensor entries in report order. */
+  public all(): SensorEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Looks up a sensor by its exact Identifier.
+   * @param identifier Sensor identifier, e.g. `/amdcpu/0/load/0`.
+   */
+  public get(identifier: string): SensorEntry | undefined {
+    return this.byIdentifier.get(identifier);
+  }
+
+  /**
+   * Returns the current value of a sensor, or `undefined` if it is not in the report.
+   * @param identifier Sensor identifier.
+   */
+  public value(identifier: string): number | null | undefined {
+    return this.byIdentifier.get(identifier)?.sensor.Value;
+  }
+
+  /**
+   * Returns all sensors matching a filter.
+   * @param filter Filter criteria.
+   */
+  public find(filter: SensorFilter): SensorEntry[] {
+    if (typeof filter.identifier === 'string') {
+      const entry = this.byIdentifier.get(filter.identifier);
+      return entry && matchesSensorFilter(entry, filter) ? [entry] : [];
+    }
+    return this.entries.filter(entry => matchesSensorFilter(entry, filter));
+  }
+
+  /**
+   * Returns the first sensor matching a filter.
+   * @param filter Filter criteria.
+   */
+  public findOne(filter: SensorFilter): SensorEntry | undefined {
+    return this.find(filter)[0];
+  }
+}
+
+/**
+ * Queries a report without keeping an index around.
+ * @param report The report from `getDataOnce` or the `'data'` event.
+ * @param filter Filter criteria.
+ */
+export function querySensors(report: HardwareReport, filter: SensorFilter): SensorEntry[] {
+  return new SensorIndex(report).find(filter);
+}
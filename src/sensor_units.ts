@@ -0,0 +1,276 @@
+import type {HardwareItemInfo, HardwareReport, SensorInfo} from './index.js';
+import {REPORT_CATEGORIES} from './sensor_query.js';
+
+/** Normalised sensor categories, derived from the CLI's SensorInfo.Type. */
+export type SensorKind =
+  | 'temperature'
+  | 'load'
+  | 'clock'
+  | 'power'
+  | 'voltage'
+  | 'current'
+  | 'data'
+  | 'throughput'
+  | 'fan'
+  | 'flow'
+  | 'control'
+  | 'level'
+  | 'factor'
+  | 'frequency'
+  | 'energy'
+  | 'timeSpan'
+  | 'noise'
+  | 'humidity'
+  | 'conductivity';
+
+export type TemperatureUnit = '°C' | '°F' | 'K';
+export type DataUnit = 'B' | 'KB' | 'MB' | 'GB' | 'TB' | 'KiB' | 'MiB' | 'GiB' | 'TiB';
+export type ThroughputUnit = 'B/s' | 'KB/s' | 'MB/s' | 'GB/s' | 'KiB/s' | 'MiB/s' | 'kbit/s' | 'Mbit/s' | 'Gbit/s';
+export type FrequencyUnit = 'Hz' | 'kHz' | 'MHz' | 'GHz';
+export type PowerUnit = 'W' | 'mW' | 'kW';
+export type VoltageUnit = 'V' | 'mV';
+export type CurrentUnit = 'A' | 'mA';
+export type EnergyUnit = 'Wh' | 'mWh' | 'J';
+export type TimeUnit = 's' | 'ms' | 'min' | 'h';
+
+export type SensorUnit =
+  | TemperatureUnit
+  | DataUnit
+  | ThroughputUnit
+  | FrequencyUnit
+  | PowerUnit
+  | VoltageUnit
+  | CurrentUnit
+  | EnergyUnit
+  | TimeUnit
+  | '%'
+  | 'RPM'
+  | 'L/h'
+  | 'dBA'
+  | 'µS/cm'
+  | '';
+
+/** Preferred output unit per sensor kind; kinds that are not listed keep the CLI unit. */
+export type UnitPreferences = {
+  temperature?: TemperatureUnit;
+  data?: DataUnit;
+  throughput?: ThroughputUnit;
+  clock?: FrequencyUnit;
+  frequency?: FrequencyUnit;
+  power?: PowerUnit;
+  voltage?: VoltageUnit;
+  current?: CurrentUnit;
+  energy?: EnergyUnit;
+  timeSpan?: TimeUnit;
+};
+
+export type SensorDescriptor = {
+  kind: SensorKind | null;
+  /** Known unit of the reading, or null if the CLI unit is not recognised. */
+  unit: SensorUnit | null;
+};
+
+const TYPE_TO_KIND: Record<string, SensorKind> = {
+  temperature: 'temperature',
+  load: 'load',
+  clock: 'clock',
+  power: 'power',
+  voltage: 'voltage',
+  current: 'current',
+  data: 'data',
+  smalldata: 'data',
+  throughput: 'throughput',
+  fan: 'fan',
+  flow: 'flow',
+  control: 'control',
+  level: 'level',
+  factor: 'factor',
+  frequency: 'frequency',
+  energy: 'energy',
+  timespan: 'timeSpan',
+  noise: 'noise',
+  humidity: 'humidity',
+  conductivity: 'conductivity',
+};
+
+/** Default unit of each kind, used when the CLI reports an empty or unknown unit string. */
+export const SENSOR_KIND_UNITS: Record<SensorKind, SensorUnit> = {
+  temperature: '°C',
+  load: '%',
+  clock: 'MHz',
+  power: 'W',
+  voltage: 'V',
+  current: 'A',
+  data: 'GiB',
+  throughput: 'B/s',
+  fan: 'RPM',
+  flow: 'L/h',
+  control: '%',
+  level: '%',
+  factor: '',
+  frequency: 'Hz',
+  energy: 'mWh',
+  timeSpan: 's',
+  noise: 'dBA',
+  humidity: '%',
+  conductivity: 'µS/cm',
+};
+
+type Dimension =
+  'temperature' | 'data' | 'throughput' | 'frequency' | 'power' | 'voltage' | 'current' | 'energy' | 'time';
+
+type UnitDefinition = {
+  dimension: Dimension;
+  toBase: (value: number) => number;
+  fromBase: (value: number) => number;
+};
+
+const linear = (dimension: Dimension, factor: number): UnitDefinition => ({
+  dimension,
+  toBase: value => value * factor,
+  fromBase: value => value / factor,
+});
+
+// Base units: °C, bytes, bytes per second, Hz, W, V, A, Wh and seconds
+const UNIT_DEFINITIONS: Partial<Record<SensorUnit, UnitDefinition>> = {
+  '°C': linear('temperature', 1),
+  '°F': {dimension: 'temperature', toBase: value => ((value - 32) * 5) / 9, fromBase: value => (value * 9) / 5 + 32},
+  K: {dimension: 'temperature', toBase: value => value - 273.15, fromBase: value => value + 273.15},
+  B: linear('data', 1),
+  KB: linear('data', 1e3),
+  MB: linear('data', 1e6),
+  GB: linear('data', 1e9),
+  TB: linear('data', 1e12),
+  KiB: linear('data', 1024),
+  MiB: linear('data', 1024 ** 2),
+  GiB: linear('data', 1024 ** 3),
+  TiB: linear('data', 1024 ** 4),
+  'B/s': linear('throughput', 1),
+  'KB/s': linear('throughput', 1e3),
+  'MB/s': linear('throughput', 1e6),
+  'GB/s': linear('throughput', 1e9),
+  'KiB/s': linear('throughput', 1024),
+  'MiB/s': linear('throughput', 1024 ** 2),
+  'kbit/s': linear('throughput', 1e3 / 8),
+  'Mbit/s': linear('throughput', 1e6 / 8),
+  'Gbit/s': linear('throughput', 1e9 / 8),
+  Hz: linear('frequency', 1),
+  kHz: linear('frequency', 1e3),
+  MHz: linear('frequency', 1e6),
+  GHz: linear('frequency', 1e9),
+  W: linear('power', 1),
+  mW: linear('power', 1e-3),
+  kW: linear('power', 1e3),
+  V: linear('voltage', 1),
+  mV: linear('voltage', 1e-3),
+  A: linear('current', 1),
+  mA: linear('current', 1e-3),
+  Wh: linear('energy', 1),
+  mWh: linear('energy', 1e-3),
+  J: linear('energy', 1 / 3600),
+  s: linear('time', 1),
+  ms: linear('time', 1e-3),
+  min: linear('time', 60),
+  h: linear('time', 3600),
+};
+
+// The CLI labels binary data sizes with decimal prefixes
+const BINARY_DATA_UNITS: Record<string, DataUnit> = {KB: 'KiB', MB: 'MiB', GB: 'GiB', TB: 'TiB'};
+
+const KNOWN_UNITS = new Set<string>([...Object.keys(UNIT_DEFINITIONS), '%', 'RPM', 'L/h', 'dBA', 'µS/cm', '']);
+
+/**
+ * Maps a CLI sensor Type (e.g. 'Temperature', 'SmallData') to a SensorKind.
+ * @param type SensorInfo.Type.
+ * @returns The kind, or null for unknown types.
+ */
+export function getSensorKind(type: string): SensorKind | null {
+  return TYPE_TO_KIND[type.toLowerCase()] ?? null;
+}
+
+/**
+ * Resolves the kind and unit of a sensor reading.
+ * The CLI labels binary data sizes as 'MB'/'GB' and reports them in MiB/GiB, so Data/SmallData units are
+ * normalised accordingly.
+ * @param sensor The sensor to describe.
+ */
+export function describeSensor(sensor: SensorInfo): SensorDescriptor {
+  const kind = getSensorKind(sensor.Type);
+  let unit: string = sensor.Unit;
+
+  if (kind === 'data') {
+    unit = BINARY_DATA_UNITS[unit] ?? unit;
+  }
+  if (KNOWN_UNITS.has(unit) && (unit !== '' || kind === 'factor')) {
+    return {kind, unit: unit as SensorUnit};
+  }
+  if (kind && !unit) return {kind, unit: SENSOR_KIND_UNITS[kind]};
+  return {kind, unit: null};
+}
+
+/**
+ * True if a value can be converted between the two units.
+ * @param from Source unit.
+ * @param to Target unit.
+ */
+export function canConvert(from: SensorUnit, to: SensorUnit): boolean {
+  if (from === to) return true;
+  const source = UNIT_DEFINITIONS[from];
+  const target = UNIT_DEFINITIONS[to];
+  return !!source && !!target && source.dimension === target.dimension;
+}
+
+/**
+ * Converts a value between two compatible units, e.g. `convertValue(45, '°C', '°F')`.
+ * @param value The value to convert.
+ * @param from Source unit.
+ * @param to Target unit.
+ * @throws Error if the units measure different things.
+ */
+export function convertValue(value: number, from: SensorUnit, to: SensorUnit): number {
+  if (from === to) return value;
+  if (!canConvert(from, to)) {
+    throw new Error(`Cannot convert from '${from}' to '${to}'.`);
+  }
+  return UNIT_DEFINITIONS[to]!.fromBase(UNIT_DEFINITIONS[from]!.toBase(value));
+}
+
+function convertSensor(sensor: SensorInfo, preferences: UnitPreferences): SensorInfo {
+  const {kind, unit} = describeSensor(sensor);
+  if (!kind || !unit) return {...sensor};
+
+  let target = (preferences as Record<string, SensorUnit | undefined>)[kind];
+  // A decimal label on a data sensor would be read as binary again, so data sizes are always labelled KiB-TiB
+  if (kind === 'data' && target) target = BINARY_DATA_UNITS[target] ?? target;
+  if (!target || !canConvert(unit, target)) return {...sensor};
+  if (target === unit) return {...sensor, Unit: unit};
+
+  return {
+    ...sensor,
+    Value: sensor.Value === null ? null : convertValue(sensor.Value, unit, target),
+    Unit: target,
+  };
+}
+
+function convertItem(item: HardwareItemInfo, preferences: UnitPreferences): HardwareItemInfo {
+  return {
+    ...item,
+    Sensors: (item.Sensors || []).map(sensor => convertSensor(sensor, preferences)),
+    SubHardware: (item.SubHardware || []).map(sub => convertItem(sub, preferences)),
+  };
+}
+
+/**
+ * Returns a copy of a report with sensor values converted to the preferred units.
+ * Sensors of unknown types or units are copied unchanged. Data sizes are binary, so a `data` preference of
+ * 'KB'-'TB' gives 'KiB'-'TiB'; converting a converted report again leaves it unchanged.
+ * @param report The report to convert.
+ * @param preferences Target unit per sensor kind.
+ */
+export function convertReport(report: HardwareReport, preferences: UnitPreferences): HardwareReport {
+  const converted: HardwareReport = {...report};
+  for (const category of REPORT_CATEGORIES) {
+    if (report[category]) converted[category] = report[category].map(item => convertItem(item, preferences));
+  }
+  return converted;
+}
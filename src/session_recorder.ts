@@ -0,0 +1,251 @@
+import {EventEmitter} from 'node:events';
+import fs from 'node:fs';
+import os from 'node:os';
+import readline from 'node:readline';
+import {PassThrough} from 'node:stream';
+import type {ComponentType, MonitorError} from './index.js';
+import type {TimedProcess} from './timed_session.js';
+
+export const RECORDING_FORMAT_VERSION = 1;
+
+export type RecordingHeader = {
+  type: 'header';
+  version: number;
+  /** ISO date string of when recording started. */
+  createdAt: string;
+  intervalMs: number;
+  /** Requested components, or null for all. */
+  components: ComponentType[] | null;
+  platform: string;
+  arch: string;
+};
+
+/** One NDJSON line of a recording. `t` is milliseconds since recording started. */
+export type RecordingEntry =
+  | RecordingHeader
+  | {type: 'stdout' | 'stderr'; t: number; data: string}
+  | {type: 'error'; t: number; errorType: MonitorError['type']; message: string; stderrData?: string}
+  | {type: 'exit'; t: number; code: number | null};
+
+export type ReplayOptions = {
+  /** Playback speed multiplier; 1 keeps the original timing, 0 replays without delays. Defaults to 1. */
+  speed?: number;
+};
+
+/**
+ * Writes the raw output of a timed CLI session to an NDJSON file.
+ * The first line is a RecordingHeader; following lines are stdout/stderr chunks, errors and the exit code.
+ */
+export class SessionRecorder {
+  public readonly filePath: string;
+  private readonly stream: fs.WriteStream;
+  private readonly startedAt: number;
+  private closed: boolean = false;
+  private failed: boolean = false;
+
+  /**
+   * @param filePath NDJSON file to write; it is created or truncated.
+   * @param intervalMs Interval of the recorded session.
+   * @param components Components of the recorded session.
+   * @param onError Receives a 'write_error' MonitorError if the file cannot be written. Recording stops then;
+   *   the session keeps running.
+   */
+  constructor(
+    filePath: string,
+    intervalMs: number,
+    components?: ComponentType[],
+    onError: (error: MonitorError) => void = () => {},
+  ) {
+    this.filePath = filePath;
+    this.startedAt = Date.now();
+    this.stream = fs.createWriteStream(filePath, {flags: 'w', encoding: 'utf8'});
+    this.stream.on('error', error => {
+      if (this.failed) return;
+      this.failed = true;
+      this.closed = true;
+      this.stream.destroy();
+      const err: MonitorError = new Error(`Recording to ${filePath} stopped: ${error.message}`) as MonitorError;
+      err.type = 'write_error';
+      err.rawError = error;
+      onError(err);
+    });
+    this.write({
+      type: 'header',
+      version: RECORDING_FORMAT_VERSION,
+      createdAt: new Date(this.startedAt).toISOString(),
+      intervalMs,
+      components: components && components.length > 0 ? components : null,
+      platform: os.platform(),
+      arch: os.arch(),
+    });
+  }
+
+  /**
+   * Records the output, errors and exit of a TimedSession until it exits.
+   * @param session The session to record.
+   */
+  public attach(session: EventEmitter): void {
+    session.on('stdout', (data: string) => this.write({type: 'stdout', t: this.elapsed(), data}));
+    session.on('stderr', (data: string) => this.write({type: 'stderr', t: this.elapsed(), data}));
+    session.on('error', (err: MonitorError) => {
+      this.write({
+        type: 'error',
+        t: this.elapsed(),
+        errorType: err.type,
+        message: err.message,
+        stderrData: err.stderrData,
+      });
+    });
+    session.on('exit', (code: number | null) => {
+      this.write({type: 'exit', t: this.elapsed(), code});
+      this.close().catch(() => {});
+    });
+  }
+
+  /** Flushes and closes the file. */
+  public close(): Promise<void> {
+    if (this.closed) return Promise.resolve();
+    this.closed = true;
+    return new Promise(resolve => {
+      // Write errors are reported through onError
+      this.stream.once('error', () => resolve());
+      this.stream.end(() => resolve());
+    });
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  private write(entry: RecordingEntry): void {
+    if (this.closed) return;
+    this.stream.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Reads and validates the header line of a recording.
+ * @param filePath Path to the NDJSON recording.
+ * @throws Error if the file does not start with a supported header.
+ */
+export async function readRecordingHeader(filePath: string): Promise<RecordingHeader> {
+  const lines = readline.createInterface({
+    input: fs.createReadStream(filePath, {encoding: 'utf8'}),
+    crlfDelay: Infinity,
+  });
+  try {
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      const header = JSON.parse(line) as RecordingHeader;
+      if (header.type !== 'header' || typeof header.intervalMs !== 'number') {
+        throw new Error(`${filePath} is not a hardware monitor recording (missing header).`);
+      }
+      if (header.version > RECORDING_FORMAT_VERSION) {
+        throw new Error(`Unsupported recording version ${header.version} in ${filePath}.`);
+      }
+      return header;
+    }
+    throw new Error(`${filePath} is empty.`);
+  } finally {
+    lines.close();
+  }
+}
+
+/**
+ * Process-like source that plays a recording back on stdout/stderr, so replayed output goes through
+ * the same framing and parsing as live CLI output.
+ */
+export class ReplayProcess extends EventEmitter implements TimedProcess {
+  public readonly stdout = new PassThrough();
+  public readonly stderr = new PassThrough();
+  public readonly pid = undefined;
+  private readonly filePath: string;
+  private readonly speed: number;
+  private killed: boolean = false;
+  private closed: boolean = false;
+  private wakeUp: (() => void) | null = null;
+
+  constructor(filePath: string, options: ReplayOptions = {}) {
+    super();
+    this.filePath = filePath;
+    this.speed = Math.max(0, options.speed ?? 1);
+    process.nextTick(() => {
+      if (this.killed) return;
+      this.emit('spawn');
+      this.play().catch(err => {
+        this.emit('error', err);
+        this.finish(1);
+      });
+    });
+  }
+
+  public kill(): boolean {
+    if (this.killed) return false;
+    this.killed = true;
+    this.wakeUp?.();
+    this.finish(null);
+    return true;
+  }
+
+  private finish(code: number | null): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.stdout.end();
+    this.stderr.end();
+    // Let pending output reach listeners before announcing the close, like a real child process
+    setImmediate(() => this.emit('close', code));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wakeUp = null;
+        resolve();
+      }, ms);
+      this.wakeUp = () => {
+        clearTimeout(timer);
+        this.wakeUp = null;
+        resolve();
+      };
+    });
+  }
+
+  private async play(): Promise<void> {
+    const lines = readline.createInterface({
+      input: fs.createReadStream(this.filePath, {encoding: 'utf8'}),
+      crlfDelay: Infinity,
+    });
+    const startedAt = Date.now();
+
+    try {
+      for await (const line of lines) {
+        if (this.killed) return;
+        if (!line.trim()) continue;
+        const entry = JSON.parse(line) as RecordingEntry;
+        if (entry.type === 'header') continue;
+
+        if (this.speed > 0) {
+          const dueIn = entry.t / this.speed - (Date.now() - startedAt);
+          if (dueIn > 0) await this.sleep(dueIn);
+          if (this.killed) return;
+        }
+
+        if (entry.type === 'stdout') {
+          this.stdout.write(entry.data);
+        } else if (entry.type === 'stderr') {
+          this.stderr.write(entry.data);
+        } else if (entry.type === 'error' && entry.errorType === 'spawn_error') {
+          // Other errors are derived from the replayed output again
+          this.emit('error', new Error(entry.message));
+        } else if (entry.type === 'exit') {
+          // A null code means the recorded process was terminated (e.g. by stopTimed), so end cleanly
+          this.finish(entry.code ?? 0);
+          return;
+        }
+      }
+      this.finish(0);
+    } finally {
+      lines.close();
+    }
+  }
+}
@@ -0,0 +1,252 @@
+import {EventEmitter} from 'node:events';
+import type {ComponentType, HardwareReport, MonitorError} from './index.js';
+import {convertReport, UnitPreferences} from './sensor_units.js';
+import type {TimedSession} from './timed_session.js';
+
+export type SubscribeOptions = {
+  /** Convert sensor values to these units before delivering reports to this subscriber. */
+  units?: UnitPreferences;
+};
+
+/** Handle returned by HardwareMonitor.subscribe(). */
+export interface Subscription {
+  readonly intervalMs: number;
+  /** Requested components; empty means all (including uptime). */
+  readonly components: ComponentType[];
+  /** False once unsubscribed. */
+  readonly active: boolean;
+  /** Stops delivery to this subscriber and reconfigures or stops the shared process. */
+  unsubscribe(): void;
+}
+
+/** Settings of the shared timed process. `components` is undefined when it covers everything. */
+export type SharedSessionConfig = {
+  intervalMs: number;
+  components: ComponentType[] | undefined;
+};
+
+type Subscriber = {
+  intervalMs: number;
+  components: ComponentType[];
+  listener: (report: HardwareReport) => void;
+  units?: UnitPreferences;
+  lastDelivery: number | null;
+  active: boolean;
+};
+
+const REPORT_KEYS: Record<string, keyof HardwareReport> = {
+  cpu: 'CPU',
+  gpu: 'GPU',
+  memory: 'Memory',
+  motherboard: 'Motherboard',
+  storage: 'Storage',
+  network: 'Network',
+  battery: 'Battery',
+  controller: 'Controller',
+  psu: 'Psu',
+};
+
+/** Copies one entry of a report, keeping the key and its value type together. */
+function copyEntry<K extends keyof HardwareReport>(target: HardwareReport, source: HardwareReport, key: K): void {
+  target[key] = source[key];
+}
+
+function coversAll(components: ComponentType[]): boolean {
+  return components.length === 0 || components.includes('all');
+}
+
+/**
+ * Keeps only the requested components of a report. Returns the report itself when all are requested.
+ * @param report The report to filter.
+ * @param components Requested components; empty or including 'all' means all.
+ */
+export function filterReportComponents(report: HardwareReport, components: ComponentType[]): HardwareReport {
+  if (coversAll(components)) return report;
+
+  const filtered = {Timestamp: report.Timestamp} as HardwareReport;
+  for (const component of components) {
+    const key = REPORT_KEYS[component.toLowerCase()];
+    if (key && report[key] !== undefined) copyEntry(filtered, report, key);
+  }
+  if (components.includes('uptime')) {
+    if (report.Uptime) filtered.Uptime = report.Uptime;
+    if (report.ElapsedTime) filtered.ElapsedTime = report.ElapsedTime;
+  }
+  return filtered;
+}
+
+/**
+ * Shares one timed session between subscribers with their own components and intervals.
+ * The session covers the union of all requested components at the fastest requested interval; each
+ * subscriber only receives its components, decimated to its own interval. The session is restarted
+ * when the union or the fastest interval changes and stopped when the last subscriber leaves.
+ * Emits 'error' with MonitorError objects from the session, including a 'process_error' when the session
+ * ends while subscribers remain, and 'reconfigure' with a SharedSessionConfig (or null when stopped).
+ */
+export class SubscriptionHub extends EventEmitter {
+  private readonly createSession: (config: SharedSessionConfig) => TimedSession;
+  private readonly finalize: (parsedReport: HardwareReport, components?: ComponentType[]) => HardwareReport;
+  private readonly subscribers = new Set<Subscriber>();
+  private session: TimedSession | null = null;
+  private config: SharedSessionConfig | null = null;
+  private reconfigureScheduled: boolean = false;
+
+  /**
+   * @param createSession Creates (but does not start) a timed session for the given config. Sessions should be
+   *   supervised, so a crashed process is restarted and only ends once the supervisor gives up.
+   * @param finalize Turns a parsed report into the report handed to callers, e.g. adding uptime.
+   */
+  constructor(
+    createSession: (config: SharedSessionConfig) => TimedSession,
+    finalize: (parsedReport: HardwareReport, components?: ComponentType[]) => HardwareReport,
+  ) {
+    super();
+    this.createSession = createSession;
+    this.finalize = finalize;
+  }
+
+  /** Number of active subscribers. */
+  public get size(): number {
+    return this.subscribers.size;
+  }
+
+  /** Current settings of the shared process, or null if none is running. */
+  public get currentConfig(): SharedSessionConfig | null {
+    return this.config;
+  }
+
+  public subscribe(
+    intervalMs: number,
+    components: ComponentType[] | undefined,
+    listener: (report: HardwareReport) => void,
+    options: SubscribeOptions = {},
+  ): Subscription {
+    const subscriber: Subscriber = {
+      intervalMs,
+      components: [...(components ?? [])],
+      listener,
+      units: options.units,
+      lastDelivery: null,
+      active: true,
+    };
+    this.subscribers.add(subscriber);
+    this.scheduleReconfigure();
+
+    const unsubscribe = () => {
+      if (!subscriber.active) return;
+      subscriber.active = false;
+      this.subscribers.delete(subscriber);
+      this.scheduleReconfigure();
+    };
+    return {
+      intervalMs,
+      components: subscriber.components,
+      get active() {
+        return subscriber.active;
+      },
+      unsubscribe,
+    };
+  }
+
+  /** Removes every subscriber and stops the shared process. */
+  public clear(): void {
+    for (const subscriber of this.subscribers) subscriber.active = false;
+    this.subscribers.clear();
+    this.reconfigure();
+  }
+
+  // Batches joins and leaves made in the same tick into one restart
+  private scheduleReconfigure(): void {
+    if (this.reconfigureScheduled) return;
+    this.reconfigureScheduled = true;
+    process.nextTick(() => {
+      this.reconfigureScheduled = false;
+      this.reconfigure();
+    });
+  }
+
+  private computeConfig(): SharedSessionConfig | null {
+    if (this.subscribers.size === 0) return null;
+
+    const subscribers = [...this.subscribers];
+    const intervalMs = Math.min(...subscribers.map(subscriber => subscriber.intervalMs));
+    if (subscribers.some(subscriber => coversAll(subscriber.components))) {
+      return {intervalMs, components: undefined};
+    }
+    const union = new Set(subscribers.flatMap(subscriber => subscriber.components));
+    return {intervalMs, components: [...union].sort()};
+  }
+
+  private reconfigure(): void {
+    const next = this.computeConfig();
+    const current = this.session ? this.config : null;
+    if (
+      next &&
+      current &&
+      next.intervalMs === current.intervalMs &&
+      next.components?.join(',') === current.components?.join(',')
+    ) {
+      return;
+    }
+
+    if (this.session) {
+      const previous = this.session;
+      this.session = null;
+      previous.removeAllListeners();
+      // Errors from the old process while it shuts down are not relevant to subscribers
+      previous.on('error', () => {});
+      previous.stop();
+    }
+
+    this.config = next;
+    this.emit('reconfigure', next);
+    if (!next) return;
+
+    const session = this.createSession(next);
+    session.on('report', parsedData => this.deliver(this.finalize(parsedData, next.components)));
+    session.on('error', (err: MonitorError) => this.emit('error', err));
+    session.on('exit', (code: number | null) => {
+      if (this.session !== session) return;
+      // Let the next join or leave start a fresh process
+      this.session = null;
+      this.config = null;
+      if (this.subscribers.size === 0) return;
+      const err: MonitorError = new Error(
+        `Shared hardware monitor process ended (exit code ${code}). ` +
+          'Subscribers receive no reports until a subscription is added or removed.',
+      ) as MonitorError;
+      err.type = 'process_error';
+      this.emit('error', err);
+    });
+    this.session = session;
+    session.start();
+  }
+
+  private deliver(report: HardwareReport): void {
+    const now = Date.now();
+    // Allow for timer jitter of the shared process when decimating to slower intervals
+    const tolerance = (this.config?.intervalMs ?? 0) / 2;
+
+    for (const subscriber of [...this.subscribers]) {
+      if (!subscriber.active) continue;
+      if (subscriber.lastDelivery !== null && now - subscriber.lastDelivery < subscriber.intervalMs - tolerance) {
+        continue;
+      }
+      subscriber.lastDelivery = now;
+
+      // Each listener gets its own copy, so one modifying its report does not affect the others
+      const filtered = structuredClone(filterReportComponents(report, subscriber.components));
+      const converted = subscriber.units ? convertReport(filtered, subscriber.units) : filtered;
+      try {
+        subscriber.listener(converted);
+      } catch (error) {
+        const err: MonitorError = new Error(
+          `Subscription listener threw: ${(error as Error)?.message ?? error}`,
+        ) as MonitorError;
+        err.type = 'process_error';
+        err.rawError = error;
+        this.emit('error', err);
+      }
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import {EventEmitter} from 'node:events';
+import type {Readable} from 'node:stream';
+import type {MonitorError} from './index.js';
+import {JsonFramer} from './json_framer.js';
+
+/**
+ * The parts of a ChildProcess a TimedSession relies on. Lets sources other than a spawned CLI
+ * (e.g. a replayed recording) go through the same framing and supervision logic.
+ */
+export interface TimedProcess extends EventEmitter {
+  readonly stdout: Readable | null;
+  readonly stderr: Readable | null;
+  readonly pid?: number;
+  kill(signal?: NodeJS.Signals | number): boolean;
+}
+
+export type SupervisorOptions = {
+  /** Maximum restarts allowed within `windowMs` before giving up. Defaults to 5. */
+  maxRestarts?: number;
+  /** Sliding window for counting restarts. Defaults to 60000ms. */
+  windowMs?: number;
+  /** Delay before the first restart. Defaults to 1000ms. */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay. Defaults to 30000ms. */
+  maxDelayMs?: number;
+  /** Multiplier applied to the delay for each consecutive restart. Defaults to 2. */
+  backoffFactor?: number;
+  /** Random spread applied to each delay, as a fraction of it (0-1). Defaults to 0.2. */
+  jitter?: number;
+  /** Restart a process that produced no report for this many intervals. 0 disables. Defaults to 3. */
+  hangIntervals?: number;
+  /** Time a freshly spawned process may take to produce its first report. Defaults to 30000ms. */
+  startupTimeoutMs?: number;
+};
+
+export type RestartReason = 'exit' | 'spawn_error' | 'hung';
+
+export type RestartingEvent = {
+  /** Restart attempt number within the current window, starting at 1. */
+  attempt: number;
+  delayMs: number;
+  reason: RestartReason;
+  exitCode?: number | null;
+};
+
+export type RestartedEvent = {
+  attempt: number;
+  pid?: number;
+};
+
+export type GaveUpEvent = {
+  /** Restarts performed within the window before giving up. */
+  attempts: number;
+  reason: RestartReason;
+};
+
+const DEFAULT_SUPERVISOR_OPTIONS: Required<SupervisorOptions> = {
+  maxRestarts: 5,
+  windowMs: 60000,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  hangIntervals: 3,
+  startupTimeoutMs: 30000,
+};
+
+/**
+ * One timed-mode CLI run: launches the process, frames its JSON output and optionally supervises it.
+ * Emits 'report' with each parsed object and its raw text, 'stdout'/'stderr' with raw output chunks,
+ * 'error' with MonitorError objects and 'exit' once the session has ended for good.
+ * Supervised sessions also emit 'restarting', 'restarted' and 'gaveUp'.
+ */
+export class TimedSession extends EventEmitter {
+  private readonly launch: () => TimedProcess;
+  private readonly intervalMs: number;
+  private readonly supervisor: Required<SupervisorOptions> | null;
+  private process: TimedProcess | null = null;
+  private readonly framer = new JsonFramer({onError: err => this.emit('error', err)});
+  private stopped: boolean = false;
+  private restartTimestamps: number[] = [];
+  private restartTimer: NodeJS.Timeout | null = null;
+  private hangTimer: NodeJS.Timeout | null = null;
+  private pendingRestartAttempt: number = 0;
+
+  constructor(launch: () => TimedProcess, intervalMs: number, supervisor?: SupervisorOptions | null) {
+    super();
+    this.launch = launch;
+    this.intervalMs = intervalMs;
+    this.supervisor = supervisor ? {...DEFAULT_SUPERVISOR_OPTIONS, ...supervisor} : null;
+  }
+
+  /** True until the session has been stopped or has ended for good. */
+  public get running(): boolean {
+    return !this.stopped;
+  }
+
+  /** Spawns the CLI process. */
+  public start(): void {
+    this.spawnProcess();
+  }
+
+  /**
+   * Stops the session: cancels pending restarts and kills the process.
+   * 'exit' is emitted once the process has closed.
+   */
+  public stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.clearTimers();
+    if (this.process) {
+      this.process.kill();
+    } else {
+      this.emit('exit', null);
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    if (this.hangTimer) clearTimeout(this.hangTimer);
+    this.restartTimer = null;
+    this.hangTimer = null;
+  }
+
+  private armHangTimer(firstReport: boolean): void {
+    if (!this.supervisor || this.supervisor.hangIntervals <= 0) return;
+    if (this.hangTimer) clearTimeout(this.hangTimer);
+
+    const hangTimeoutMs = this.intervalMs * this.supervisor.hangIntervals;
+    const timeoutMs = firstReport ? Math.max(hangTimeoutMs, this.supervisor.startupTimeoutMs) : hangTimeoutMs;
+    const proc = this.process;
+
+    this.hangTimer = setTimeout(() => {
+      this.hangTimer = null;
+      if (!proc || this.process !== proc || this.stopped) return;
+      this.handleFailure(proc, 'hung');
+      proc.kill();
+    }, timeoutMs);
+  }
+
+  private spawnProcess(): void {
+    this.framer.reset();
+
+    const proc = this.launch();
+    this.process = proc;
+    let failureHandled = false;
+
+    const restartAttempt = this.pendingRestartAttempt;
+    this.pendingRestartAttempt = 0;
+    if (restartAttempt > 0) {
+      proc.once('spawn', () => this.emit('restarted', {attempt: restartAttempt, pid: proc.pid} as RestartedEvent));
+    }
+    this.armHangTimer(true);
+
+    proc.stdout?.on('data', (dataChunk: Buffer) => {
+      if (this.process !== proc || this.stopped) return;
+      this.emit('stdout', dataChunk.toString());
+      this.handleStdout(dataChunk);
+    });
+
+    proc.stderr?.on('data', (data: Buffer) => {
+      this.emit('stderr', data.toString());
+      const errorMessage = data.toString().trim();
+      // Output of a process that is being stopped is not reported as a failure
+      if (errorMessage && !this.stopped) {
+        const err: MonitorError = new Error(`Error from hardware monitor process: ${errorMessage}`) as MonitorError;
+        err.type = 'process_error';
+        err.stderrData = errorMessage;
+        this.emit('error', err);
+      }
+    });
+
+    proc.on('error', (err: Error) => {
+      if (this.process !== proc || failureHandled) return;
+      failureHandled = true;
+      const monitorError: MonitorError = new Error(
+        `Failed to start hardware monitor executable (timed): ${err.message}`,
+      ) as MonitorError;
+      monitorError.type = 'spawn_error';
+      monitorError.rawError = err;
+      this.emit('error', monitorError);
+      this.handleFailure(proc, 'spawn_error');
+    });
+
+    proc.on('close', (code: number | null) => {
+      if (this.process !== proc) return;
+      this.process = null;
+      this.framer.reset();
+      if (this.hangTimer) clearTimeout(this.hangTimer);
+      this.hangTimer = null;
+
+      if (this.stopped) {
+        this.emit('exit', code);
+        return;
+      }
+      if (failureHandled) return;
+      failureHandled = true;
+
+      if (code !== 0) {
+        const message = `Hardware monitor executable (timed) exited unexpectedly with code ${code}.`;
+        const err: MonitorError = new Error(message) as MonitorError;
+        err.type = 'process_error';
+        this.emit('error', err);
+      }
+      this.handleFailure(null, 'exit', code);
+    });
+  }
+
+  /**
+   * Schedules a restart when supervised, otherwise ends the session.
+   * @param proc Process still to be detached, or null if it has already closed.
+   */
+  private handleFailure(proc: TimedProcess | null, reason: RestartReason, exitCode?: number | null): void {
+    if (proc && this.process === proc) this.process = null;
+    if (this.hangTimer) clearTimeout(this.hangTimer);
+    this.hangTimer = null;
+
+    if (!this.supervisor) {
+      this.stopped = true;
+      this.emit('exit', exitCode ?? null);
+      return;
+    }
+
+    const now = Date.now();
+    this.restartTimestamps = this.restartTimestamps.filter(time => now - time < this.supervisor!.windowMs);
+    if (this.restartTimestamps.length >= this.supervisor.maxRestarts) {
+      this.stopped = true;
+      this.emit('gaveUp', {attempts: this.restartTimestamps.length, reason} as GaveUpEvent);
+      this.emit('exit', exitCode ?? null);
+      return;
+    }
+
+    this.restartTimestamps.push(now);
+    const attempt = this.restartTimestamps.length;
+    const {initialDelayMs, backoffFactor, maxDelayMs, jitter} = this.supervisor;
+    const baseDelay = Math.min(maxDelayMs, initialDelayMs * backoffFactor ** (attempt - 1));
+    const spread = Math.min(Math.max(jitter, 0), 1);
+    const delayMs = Math.max(0, Math.round(baseDelay * (1 + spread * (Math.random() * 2 - 1))));
+
+    this.emit('restarting', {attempt, delayMs, reason, exitCode} as RestartingEvent);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      if (this.stopped) return;
+      this.pendingRestartAttempt = attempt;
+      this.spawnProcess();
+    }, delayMs);
+  }
+
+  private emitReport(parsedData: any, rawReport: string): void {
+    this.armHangTimer(false);
+    this.emit('report', parsedData, rawReport);
+  }
+
+  private handleStdout(dataChunk: Buffer): void {
+    for (const frame of this.framer.push(dataChunk)) {
+      if (typeof frame.value?.Timestamp === 'string') {
+        this.emitReport(frame.value, frame.text);
+      } else {
+        const err: MonitorError = new Error(
+          `Parsed JSON is not a valid HardwareReport. Snippet: ${frame.text.substring(0, 100)}`,
+        ) as MonitorError;
+        err.type = 'json_parse_error';
+        err.stderrData = frame.text;
+        this.emit('error', err);
+      }
+    }
+  }
+}
@@ -1,43 +1,33 @@
-import {exec} from 'node:child_process';
-import {promisify} from 'node:util';
-
-const execAsync = promisify(exec);
-const DOTNET_LIST_RUNTIMES_COMMAND = 'dotnet --list-runtimes';
-const DOTNET_10_RUNTIME_PATTERN = /microsoft\.netcore\.app\s+10\./i;
-
-function isDotNet10RuntimeInstalled(output: string): boolean {
-  return DOTNET_10_RUNTIME_PATTERN.test(output);
-}
-
-// Define a simple logger type that matches console's interface for warn and error
-type Logger = {
-  warn: (...args: any[]) => void;
-  error: (...args: any[]) => void;
-};
+import type {LogLevel} from './index.js';
+import {MonitorLogger, resolveLogger, withLogContext} from './logger.js';
+import {diagnoseDotNet} from './requirements.js';
 
 /**
  * Checks if .NET Runtime 10.0 is installed on the system.
- * This function executes a command to list installed .NET runtimes and verifies
- * if .NET Runtime 10.0 is included in the list.
+ * This function lists the runtimes of the dotnet host found through DOTNET_ROOT or PATH
+ * and verifies if .NET Runtime 10.0 is included in the list.
+ * Use diagnoseDotNet() from requirements.ts for the full details.
  *
- * @param {Logger} [logger=console] - Optional logger for outputting warnings or errors.
+ * @param {LogLevel | MonitorLogger} [logger='warn'] - The level of logging to the console, or a logger.
+ * @param {string} [dotnetPath] - Optional dotnet executable, or the folder containing it.
  * @return {Promise<boolean>} A promise that resolves to `true`
  * if .NET Runtime 10.0 is installed otherwise resolves to `false`.
  */
-export async function checkDotNetRuntime10(logger: Logger = console): Promise<boolean> {
-  try {
-    const {stdout, stderr} = await execAsync(DOTNET_LIST_RUNTIMES_COMMAND);
-
-    if (stderr) {
-      logger.warn(`Stderr from 'dotnet --list-runtimes': ${stderr}`);
-    }
-
-    return isDotNet10RuntimeInstalled(stdout);
-  } catch (error) {
-    // This error usually means the 'dotnet' command is not found.
-    logger.error(`Error executing 'dotnet --list-runtimes': ${(error as Error).message}`);
+export async function checkDotNetRuntime10(
+  logger: LogLevel | MonitorLogger = 'warn',
+  dotnetPath?: string,
+): Promise<boolean> {
+  const log = withLogContext(resolveLogger(logger), {component: 'dotnet'});
+  const diagnostics = await diagnoseDotNet(dotnetPath, log);
+  if (!diagnostics.hostPath) {
+    log.error('The dotnet host was not found on DOTNET_ROOT, PATH or in the default install locations.');
+    return false;
+  }
+  if (diagnostics.error) {
+    log.error(`Error executing '${diagnostics.hostPath} --list-runtimes': ${diagnostics.error}`);
     return false;
   }
+  return diagnostics.requiredRuntime !== null;
 }
 
 /**
@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import {describe, it} from 'node:test';
+import {AlertClearedEvent, AlertEngine, AlertEvent, AlertRule} from '../src/alert_rules.js';
+import type {HardwareReport} from '../src/index.js';
+
+/** A report at `seconds` after a fixed start, with one CPU temperature sensor per given value. */
+function report(seconds: number, ...temperatures: (number | null)[]): HardwareReport {
+  return {
+    Timestamp: new Date(Date.UTC(2026, 0, 1) + seconds * 1000).toISOString(),
+    CPU: [
+      {
+        Name: 'Test CPU',
+        HardwareType: 'Cpu',
+        Sensors: temperatures.map((value, index) => ({
+          Name: `Core #${index + 1}`,
+          Value: value,
+          Type: 'Temperature',
+          Unit: '°C',
+          Identifier: `/cpu/0/temperature/${index}`,
+        })),
+        SubHardware: [],
+      },
+    ],
+    GPU: [],
+    Memory: [],
+    Motherboard: [],
+    Storage: [],
+    Network: [],
+    Battery: [],
+    Controller: [],
+    Psu: [],
+  };
+}
+
+/** An engine with one rule, recording the values of its alerts (+) and clears (-). */
+function watch(rule: Partial<AlertRule>): {engine: AlertEngine; log: string[]} {
+  const engine = new AlertEngine([{id: 'hot', target: {category: 'CPU', type: 'Temperature'}, ...rule}]);
+  const log: string[] = [];
+  engine.on('alert', (event: AlertEvent) => log.push(`+${event.sensor.Name}=${event.value}`));
+  engine.on('alertCleared', (event: AlertClearedEvent) => log.push(`-${event.sensor.Name}=${event.value}`));
+  return {engine, log};
+}
+
+describe('AlertEngine', () => {
+  it('clears an above alert only once the value drops past the hysteresis margin', () => {
+    const {engine, log} = watch({above: 80, hysteresis: 5});
+    [79, 81, 79, 76, 75, 81].forEach((value, second) => engine.evaluate(report(second, value)));
+    assert.deepEqual(log, ['+Core #1=81', '-Core #1=75', '+Core #1=81']);
+  });
+
+  it('clears a below alert only once the value rises past the hysteresis margin', () => {
+    const {engine, log} = watch({below: 20, hysteresis: 2});
+    [21, 19, 21, 22].forEach((value, second) => engine.evaluate(report(second, value)));
+    assert.deepEqual(log, ['+Core #1=19', '-Core #1=22']);
+  });
+
+  it('fires only after the threshold is crossed for durationMs, with since set to the first crossing', () => {
+    const {engine, log} = watch({above: 80, durationMs: 2000});
+    const alerts: AlertEvent[] = [];
+    engine.on('alert', (event: AlertEvent) => alerts.push(event));
+
+    [81, 79, 81, 82, 83].forEach((value, second) => engine.evaluate(report(second, value)));
+    assert.deepEqual(log, ['+Core #1=83']);
+    assert.equal(alerts[0].since, Date.parse(report(2).Timestamp));
+    assert.equal(alerts[0].threshold, 80);
+    assert.equal(alerts[0].direction, 'above');
+  });
+
+  it('waits for the cooldown before alerting the same sensor again', () => {
+    const {engine, log} = watch({above: 80, cooldownMs: 10000});
+    engine.evaluate(report(0, 81));
+    engine.evaluate(report(1, 70));
+    engine.evaluate(report(2, 81));
+    engine.evaluate(report(10, 82));
+    assert.deepEqual(log, ['+Core #1=81', '-Core #1=70', '+Core #1=82']);
+  });
+
+  it('keeps the state of sensors without a value', () => {
+    const {engine, log} = watch({above: 80});
+    engine.evaluate(report(0, 81));
+    engine.evaluate(report(1, null));
+    assert.equal(engine.getActiveAlerts().length, 1);
+    engine.evaluate(report(2, 70));
+    assert.deepEqual(log, ['+Core #1=81', '-Core #1=70']);
+  });
+
+  it('tracks every matching sensor separately', () => {
+    const {engine, log} = watch({above: 80});
+    engine.evaluate(report(0, 81, 70));
+    engine.evaluate(report(1, 81, 85));
+    engine.evaluate(report(2, 70, 85));
+    assert.deepEqual(log, ['+Core #1=81', '+Core #2=85', '-Core #1=70']);
+    assert.deepEqual(
+      engine.getActiveAlerts().map(event => event.sensor.Identifier),
+      ['/cpu/0/temperature/1'],
+    );
+  });
+
+  it('skips disabled rules and resets the state of replaced rules', () => {
+    const {engine, log} = watch({above: 80, enabled: false});
+    engine.evaluate(report(0, 81));
+    assert.deepEqual(log, []);
+
+    engine.addRule({id: 'hot', target: {category: 'CPU'}, above: 80});
+    engine.evaluate(report(1, 81));
+    engine.addRule({id: 'hot', target: {category: 'CPU'}, above: 90});
+    assert.deepEqual(engine.getActiveAlerts(), []);
+  });
+
+  it('round-trips rules through JSON', () => {
+    const rules: AlertRule[] = [{id: 'hot', target: {name: 'Core #*'}, above: 80, hysteresis: 5, message: 'Hot'}];
+    const restored = AlertEngine.fromJSON(JSON.stringify(new AlertEngine(rules)));
+    assert.deepEqual(restored.getRules(), rules);
+  });
+
+  it('rejects malformed rules', () => {
+    const engine = new AlertEngine();
+    assert.throws(() => engine.addRule({id: '', target: {}, above: 1}), /non-empty string id/);
+    assert.throws(() => engine.addRule({id: 'x', target: {}}), /'above' or 'below'/);
+    assert.throws(() => engine.addRule({id: 'x', target: {}, above: 1, hysteresis: -1}), /invalid 'hysteresis'/);
+    assert.throws(() => engine.loadRules('{}'), /must be an array/);
+  });
+});
@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict';
+import fsPromises from 'node:fs/promises';
+import http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import {afterEach, beforeEach, describe, it} from 'node:test';
+import DownloadCli, {DownloadOptions} from '../src/cli_downloader.js';
+import type {LogContext, MonitorLogger} from '../src/logger.js';
+
+const PLATFORM = os.platform() === 'win32' ? 'win' : os.platform() === 'darwin' ? 'osx' : 'linux';
+const ASSET_PREFIX = `LynxHardwareCLI-${PLATFORM}-${os.arch() === 'x64' ? 'x64' : 'arm64'}-`;
+const TAGS = ['v1.9.0', 'v1.10.0', 'v1.11.0-beta.1'];
+
+/**
+ * Runs a setup against fake release zips and returns the release it picked. The zips are not valid archives,
+ * so every setup ends with an error once the chosen release has been downloaded.
+ */
+async function resolvedVersion(
+  targetDir: string,
+  options: DownloadOptions,
+): Promise<{version: string | undefined; error: Error}> {
+  let version: string | undefined;
+  const logger: MonitorLogger = {
+    debug: (message: string, context?: LogContext) => {
+      if (message.startsWith('Successfully fetched release')) version = context?.version;
+    },
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+  };
+  const error = await DownloadCli(targetDir, logger, {retries: 0, ...options}).then(
+    () => assert.fail('Setup with an invalid zip succeeded.'),
+    (err: Error) => err,
+  );
+  return {version, error};
+}
+
+describe('DownloadCli release sources', () => {
+  let dir: string;
+  let releasesDir: string;
+  let targetDir: string;
+
+  beforeEach(async () => {
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'hwmonitor-download-'));
+    releasesDir = path.join(dir, 'releases');
+    targetDir = path.join(dir, 'target');
+    await fsPromises.mkdir(releasesDir);
+    for (const tag of TAGS) await fsPromises.writeFile(path.join(releasesDir, `${ASSET_PREFIX}${tag}.zip`), tag);
+    await fsPromises.writeFile(path.join(releasesDir, 'LynxHardwareCLI-other-x64-v9.0.0.zip'), 'other');
+  });
+
+  afterEach(async () => {
+    await fsPromises.rm(dir, {recursive: true, force: true});
+  });
+
+  it('picks the newest stable release of a directory, comparing versions numerically', async () => {
+    const {version} = await resolvedVersion(targetDir, {source: {type: 'directory', path: releasesDir}});
+    assert.equal(version, 'v1.10.0');
+  });
+
+  it('includes prereleases on the prerelease channel', async () => {
+    const {version} = await resolvedVersion(targetDir, {
+      source: {type: 'directory', path: releasesDir},
+      channel: 'prerelease',
+    });
+    assert.equal(version, 'v1.11.0-beta.1');
+  });
+
+  it('installs only a pinned version and fails if the source does not have it', async () => {
+    const pinned = await resolvedVersion(targetDir, {
+      source: {type: 'directory', path: releasesDir},
+      version: 'v1.9.0',
+    });
+    assert.equal(pinned.version, 'v1.9.0');
+
+    const missing = await resolvedVersion(targetDir, {
+      source: {type: 'directory', path: releasesDir},
+      version: 'v2.0.0',
+    });
+    assert.equal(missing.version, undefined);
+    assert.match(missing.error.message, /Release v2\.0\.0 not found/);
+  });
+
+  it('resolves mirror assets relative to the index, in a folder named after the tag', async () => {
+    const requests: string[] = [];
+    const server = http.createServer((req, res) => {
+      requests.push(req.url!);
+      if (req.url === '/cli/index.json') {
+        const releases = TAGS.map(tag => ({tag_name: tag, assets: [{name: `${ASSET_PREFIX}${tag}.zip`}]}));
+        res.writeHead(200, {'Content-Type': 'application/json'}).end(JSON.stringify({releases}));
+      } else if (req.url?.endsWith('.zip')) {
+        res.writeHead(200, {'Content-Length': '3'}).end('zip');
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const {port} = server.address() as AddressInfo;
+      const {version} = await resolvedVersion(targetDir, {
+        source: {type: 'mirror', url: `http://127.0.0.1:${port}/cli/`},
+      });
+      assert.equal(version, 'v1.10.0');
+      assert.ok(requests.includes(`/cli/v1.10.0/${ASSET_PREFIX}v1.10.0.zip`));
+    } finally {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
+
+describe('DownloadCli checksum verification', () => {
+  let dir: string;
+  let releasesDir: string;
+  let targetDir: string;
+
+  beforeEach(async () => {
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'hwmonitor-download-'));
+    releasesDir = path.join(dir, 'releases');
+    targetDir = path.join(dir, 'target');
+    await fsPromises.mkdir(releasesDir);
+    await fsPromises.writeFile(path.join(releasesDir, `${ASSET_PREFIX}v1.10.0.zip`), 'tampered');
+
+    // A valid older install, so a fallback would make the setup succeed
+    const installed = path.join(targetDir, 'LynxHardwareCLI', 'v1.9.0');
+    await fsPromises.mkdir(installed, {recursive: true});
+    const files = [
+      'LynxHardwareCLI',
+      'LynxHardwareCLI.exe',
+      'LynxHardwareCLI.dll',
+      'LynxHardwareCLI.runtimeconfig.json',
+    ];
+    for (const file of files) await fsPromises.writeFile(path.join(installed, file), '');
+  });
+
+  afterEach(async () => {
+    await fsPromises.rm(dir, {recursive: true, force: true});
+  });
+
+  it('rejects a zip that does not match its checksum instead of falling back to a local version', async () => {
+    const checksumPath = path.join(releasesDir, `${ASSET_PREFIX}v1.10.0.zip.sha256`);
+    await fsPromises.writeFile(checksumPath, `${'0'.repeat(64)}  ${ASSET_PREFIX}v1.10.0.zip\n`);
+    const {version, error} = await resolvedVersion(targetDir, {source: {type: 'directory', path: releasesDir}});
+    assert.equal(version, 'v1.10.0');
+    assert.match(error.message, /Checksum mismatch/);
+  });
+
+  it("rejects a release without a checksum under the 'require' policy", async () => {
+    const {error} = await resolvedVersion(targetDir, {
+      source: {type: 'directory', path: releasesDir},
+      checksumPolicy: 'require',
+    });
+    assert.match(error.message, /^Release v1\.10\.0 publishes no SHA-256 checksum/);
+  });
+});
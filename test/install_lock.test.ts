@@ -0,0 +1,119 @@
+import assert from 'node:assert/strict';
+import {spawnSync} from 'node:child_process';
+import fsPromises from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {setTimeout as sleep} from 'node:timers/promises';
+import {afterEach, beforeEach, describe, it} from 'node:test';
+import {InstallLock} from '../src/install_lock.js';
+
+async function writeLock(lockPath: string, pid: number, hostname: string = os.hostname()): Promise<void> {
+  await fsPromises.writeFile(lockPath, JSON.stringify({pid, hostname, createdAt: new Date().toISOString()}));
+}
+
+describe('InstallLock', () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'hwmonitor-lock-'));
+    lockPath = path.join(dir, '.install.lock');
+  });
+
+  afterEach(async () => {
+    await fsPromises.rm(dir, {recursive: true, force: true});
+  });
+
+  it('records the holder and removes the lock file on release', async () => {
+    const lock = await InstallLock.acquire(lockPath, 'silent');
+    const info = JSON.parse(await fsPromises.readFile(lockPath, 'utf8'));
+    assert.equal(info.pid, process.pid);
+    assert.equal(info.hostname, os.hostname());
+
+    await lock.release();
+    await lock.release();
+    await assert.rejects(fsPromises.access(lockPath), {code: 'ENOENT'});
+  });
+
+  it('waits for the holder to release the lock', async () => {
+    const first = await InstallLock.acquire(lockPath, 'silent');
+    let acquired = false;
+    const second = InstallLock.acquire(lockPath, 'silent', {pollMs: 10}).then(lock => {
+      acquired = true;
+      return lock;
+    });
+
+    await sleep(50);
+    assert.equal(acquired, false);
+    await first.release();
+    await (await second).release();
+  });
+
+  it('gives up after the timeout while the lock is held', async () => {
+    const held = await InstallLock.acquire(lockPath, 'silent');
+    try {
+      await assert.rejects(InstallLock.acquire(lockPath, 'silent', {timeoutMs: 50, pollMs: 10}), /Timed out/);
+    } finally {
+      await held.release();
+    }
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const held = await InstallLock.acquire(lockPath, 'silent');
+    try {
+      const controller = new AbortController();
+      const waiting = InstallLock.acquire(lockPath, 'silent', {pollMs: 10, signal: controller.signal});
+      controller.abort(new Error('cancelled'));
+      await assert.rejects(waiting, /cancelled/);
+    } finally {
+      await held.release();
+    }
+  });
+
+  it('takes over a lock whose holder on this host has exited', async () => {
+    const exitedPid = spawnSync(process.execPath, ['-e', '']).pid!;
+    await writeLock(lockPath, exitedPid);
+
+    const lock = await InstallLock.acquire(lockPath, 'silent', {timeoutMs: 1000, pollMs: 10});
+    assert.equal(JSON.parse(await fsPromises.readFile(lockPath, 'utf8')).pid, process.pid);
+    await lock.release();
+  });
+
+  it('takes over a lock that was not refreshed in time, but not a fresh one from another host', async () => {
+    await writeLock(lockPath, 1, 'other-host');
+    await assert.rejects(InstallLock.acquire(lockPath, 'silent', {timeoutMs: 50, pollMs: 10}), /Timed out/);
+
+    const old = new Date(Date.now() - 120000);
+    await fsPromises.utimes(lockPath, old, old);
+    const lock = await InstallLock.acquire(lockPath, 'silent', {timeoutMs: 1000, pollMs: 10});
+    await lock.release();
+    assert.deepEqual(await fsPromises.readdir(dir), []);
+  });
+
+  it('lets only one of several waiters take over a stale lock at a time', async () => {
+    await writeLock(lockPath, 1, 'other-host');
+    const old = new Date(Date.now() - 120000);
+    await fsPromises.utimes(lockPath, old, old);
+
+    let holders = 0;
+    let maxHolders = 0;
+    await Promise.all(
+      Array.from({length: 5}, async () => {
+        const lock = await InstallLock.acquire(lockPath, 'silent', {timeoutMs: 5000, pollMs: 5});
+        maxHolders = Math.max(maxHolders, ++holders);
+        await sleep(10);
+        holders--;
+        await lock.release();
+      }),
+    );
+    assert.equal(maxHolders, 1);
+    assert.deepEqual(await fsPromises.readdir(dir), []);
+  });
+
+  it('does not remove a lock another process took over', async () => {
+    const lock = await InstallLock.acquire(lockPath, 'silent');
+    await writeLock(lockPath, process.pid + 1, 'other-host');
+    await lock.release();
+    assert.equal(JSON.parse(await fsPromises.readFile(lockPath, 'utf8')).hostname, 'other-host');
+  });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import {Readable} from 'node:stream';
+import {ReadableStream} from 'node:stream/web';
+import {describe, it} from 'node:test';
+import type {MonitorError} from '../src/index.js';
+import {createJsonFramerStream, createJsonFramerTransform, JsonFrame, JsonFramer} from '../src/json_framer.js';
+
+function collectErrors(): {errors: MonitorError[]; framer: (maxObjectSize?: number) => JsonFramer} {
+  const errors: MonitorError[] = [];
+  return {errors, framer: maxObjectSize => new JsonFramer({maxObjectSize, onError: err => errors.push(err)})};
+}
+
+function values(frames: JsonFrame[]): unknown[] {
+  return frames.map(frame => frame.value);
+}
+
+describe('JsonFramer', () => {
+  it('frames single-line and pretty-printed objects', () => {
+    const framer = new JsonFramer();
+    const frames = framer.push('{"a":1}\n{\n  "b": {"c": [1, 2]}\n}\n');
+    assert.deepEqual(values(frames), [{a: 1}, {b: {c: [1, 2]}}]);
+    assert.equal(frames[1].text, '{\n  "b": {"c": [1, 2]}\n}');
+  });
+
+  it('keeps scan state across chunks, including multi-byte characters split between them', () => {
+    const framer = new JsonFramer();
+    const bytes = Buffer.from('{"name":"Température","v":"}{"}\n');
+    const split = bytes.indexOf(Buffer.from('é')) + 1;
+    assert.deepEqual(framer.push(bytes.subarray(0, split)), []);
+    assert.deepEqual(framer.push(bytes.subarray(split, split + 5)), []);
+    assert.deepEqual(values(framer.push(bytes.subarray(split + 5))), [{name: 'Température', v: '}{'}]);
+  });
+
+  it('handles braces and escaped quotes inside strings', () => {
+    const framer = new JsonFramer();
+    const frames = framer.push('{"s":"a \\"quoted\\" {brace}","t":"\\\\"}\n');
+    assert.deepEqual(values(frames), [{s: 'a "quoted" {brace}', t: '\\'}]);
+  });
+
+  it('skips banner and log lines, even when they contain braces', () => {
+    const framer = new JsonFramer();
+    const input = 'LynxHardwareCLI v1.0 {build 42}\n  {"a":1}{"b":2}\nlog: done {"c":3}\n{"d":4}\n';
+    assert.deepEqual(values(framer.push(input)), [{a: 1}, {b: 2}, {d: 4}]);
+  });
+
+  it('reports invalid objects and continues with the next one', () => {
+    const {errors, framer} = collectErrors();
+    const instance = framer();
+    assert.deepEqual(values(instance.push('{"a":}\n{"b":2}\n')), [{b: 2}]);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].type, 'json_parse_error');
+    assert.equal(errors[0].stderrData, '{"a":}');
+  });
+
+  it('skips oversized objects without buffering them', () => {
+    const {errors, framer} = collectErrors();
+    const instance = framer(16);
+    const frames = [
+      ...instance.push('{"data":"'),
+      ...instance.push('x'.repeat(100)),
+      ...instance.push('"}\n{"ok":true}\n'),
+    ];
+    assert.deepEqual(values(frames), [{ok: true}]);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0].message, /maximum size of 16/);
+  });
+
+  it('reports input that ends inside an object and starts over after end()', () => {
+    const {errors, framer} = collectErrors();
+    const instance = framer();
+    instance.push('{"a":');
+    assert.deepEqual(instance.end(), []);
+    assert.equal(errors.length, 1);
+    assert.equal(errors[0].stderrData, '{"a":');
+    assert.deepEqual(values(instance.push('1}\n{"b":2}\n')), [{b: 2}]);
+  });
+
+  it('drops a partial object on reset()', () => {
+    const framer = new JsonFramer();
+    framer.push('{"a":');
+    framer.reset();
+    assert.deepEqual(values(framer.push('{"b":2}\n')), [{b: 2}]);
+  });
+
+  it('works as a Node transform stream', async () => {
+    const transform = Readable.from(['noise\n{"a"', ':1}\n{"b":2}']).pipe(createJsonFramerTransform());
+    const frames: JsonFrame[] = [];
+    for await (const frame of transform) frames.push(frame);
+    assert.deepEqual(values(frames), [{a: 1}, {b: 2}]);
+  });
+
+  it('works as a Web transform stream', async () => {
+    const source = new ReadableStream<string>({
+      start(controller) {
+        controller.enqueue('{"a":1}\n{"b"');
+        controller.enqueue(':2}\n');
+        controller.close();
+      },
+    });
+    const frames: JsonFrame[] = [];
+    for await (const frame of source.pipeThrough(createJsonFramerStream())) frames.push(frame);
+    assert.deepEqual(values(frames), [{a: 1}, {b: 2}]);
+  });
+});
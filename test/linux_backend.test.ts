@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import fsPromises from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {after, before, describe, it} from 'node:test';
+import type {HardwareItemInfo, HardwareReport} from '../src/index.js';
+import {LinuxBackend} from '../src/linux_backend.js';
+
+const PROC_STAT = ['cpu  100 0 100 800 0 0 0 0 0 0', 'cpu0 50 0 50 400 0 0 0 0 0 0', 'cpu1 50 0 50 400 0 0 0 0 0 0'];
+
+/** A small machine: two cores, coretemp, an amdgpu, one NVMe drive, one NIC and a battery. */
+const FIXTURE: Record<string, string> = {
+  'proc/stat': PROC_STAT.join('\n'),
+  'proc/cpuinfo': 'processor\t: 0\nmodel name\t: Test CPU 3000\n\nprocessor\t: 1\nmodel name\t: Test CPU 3000\n',
+  'proc/meminfo': 'MemTotal:       16777216 kB\nMemFree:         1048576 kB\nMemAvailable:    8388608 kB\n',
+  'proc/net/dev': [
+    'Inter-|   Receive                            |  Transmit',
+    ' face |bytes    packets errs drop fifo frame compressed multicast|bytes    packets errs drop fifo colls',
+    '    lo: 1000 10 0 0 0 0 0 0 1000 10 0 0 0 0 0 0',
+    '  eth0: 1073741824 100 0 0 0 0 0 0 536870912 50 0 0 0 0 0 0',
+  ].join('\n'),
+  'sys/class/net/eth0/speed': '1000',
+  'sys/devices/system/cpu/cpu0/cpufreq/scaling_cur_freq': '3000000',
+  'sys/devices/system/cpu/cpu1/cpufreq/scaling_cur_freq': '2000000',
+  'sys/class/hwmon/hwmon0/name': 'coretemp',
+  'sys/class/hwmon/hwmon0/temp1_input': '55000',
+  'sys/class/hwmon/hwmon0/temp1_label': 'Package id 0',
+  'sys/class/hwmon/hwmon0/temp2_input': '50000',
+  'sys/class/hwmon/hwmon1/name': 'amdgpu',
+  'sys/class/hwmon/hwmon1/temp1_input': '61000',
+  'sys/class/hwmon/hwmon1/temp1_label': 'edge',
+  'sys/class/hwmon/hwmon1/power1_average': '45000000',
+  'sys/class/hwmon/hwmon2/name': 'nvme',
+  'sys/class/hwmon/hwmon2/temp1_input': '40000',
+  'sys/class/hwmon/hwmon2/temp1_label': 'Composite',
+  'sys/class/hwmon/hwmon3/name': 'nct6775',
+  'sys/class/hwmon/hwmon3/fan1_input': '1200',
+  'sys/devices/pci0000:00/gpu/gpu_busy_percent': '30',
+  'sys/devices/pci0000:00/gpu/mem_info_vram_used': String(1024 ** 3),
+  'sys/devices/pci0000:00/gpu/mem_info_vram_total': String(4 * 1024 ** 3),
+  'sys/devices/pci0000:00/nvme0/model': 'Test NVMe 1TB',
+  'sys/block/nvme0n1/stat': '100 0 2048 0 50 0 4096 0 0 100 0',
+  'sys/block/loop0/stat': '1 0 8 0 0 0 0 0 0 0 0',
+  'sys/class/power_supply/AC/type': 'Mains',
+  'sys/class/power_supply/BAT0/type': 'Battery',
+  'sys/class/power_supply/BAT0/status': 'Discharging',
+  'sys/class/power_supply/BAT0/capacity': '80',
+  'sys/class/power_supply/BAT0/voltage_now': '12000000',
+  'sys/class/power_supply/BAT0/power_now': '10000000',
+  'sys/class/power_supply/BAT0/energy_full': '45000000',
+  'sys/class/power_supply/BAT0/energy_full_design': '50000000',
+  'sys/class/power_supply/BAT0/energy_now': '36000000',
+  'sys/class/power_supply/BAT0/model_name': 'Test Battery',
+  'sys/class/dmi/id/board_vendor': 'Test Vendor',
+  'sys/class/dmi/id/board_name': 'Test Board',
+};
+
+const LINKS: Record<string, string> = {
+  'sys/class/hwmon/hwmon1/device': 'sys/devices/pci0000:00/gpu',
+  'sys/class/hwmon/hwmon2/device': 'sys/devices/pci0000:00/nvme0',
+  'sys/block/nvme0n1/device': 'sys/devices/pci0000:00/nvme0',
+};
+
+async function writeFile(root: string, file: string, content: string): Promise<void> {
+  await fsPromises.mkdir(path.dirname(path.join(root, file)), {recursive: true});
+  await fsPromises.writeFile(path.join(root, file), content);
+}
+
+function sensorValue(item: HardwareItemInfo | undefined, name: string): number | null | undefined {
+  return item?.Sensors.find(sensor => sensor.Name === name)?.Value;
+}
+
+describe('LinuxBackend', () => {
+  let root: string;
+
+  before(async () => {
+    root = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'hwmonitor-linux-'));
+    for (const [file, content] of Object.entries(FIXTURE)) await writeFile(root, file, content);
+    for (const [link, target] of Object.entries(LINKS)) {
+      await fsPromises.symlink(path.join(root, target), path.join(root, link));
+    }
+  });
+
+  after(async () => {
+    await fsPromises.rm(root, {recursive: true, force: true});
+  });
+
+  it('requires a readable proc/stat under the root', async () => {
+    await new LinuxBackend({root}).checkRequirements();
+    await assert.rejects(new LinuxBackend({root: path.join(root, 'missing')}).checkRequirements(), /proc\/stat/);
+  });
+
+  it('reads CPU, memory, GPU, storage, network, battery and motherboard sensors', async () => {
+    const report = await new LinuxBackend({root, sampleDelayMs: 0}).readOnce(undefined, 5000);
+
+    const cpu = report.CPU[0];
+    assert.equal(cpu.Name, 'Test CPU 3000');
+    assert.equal(sensorValue(cpu, 'Core #1'), 3000);
+    assert.equal(sensorValue(cpu, 'Core #2'), 2000);
+    assert.equal(sensorValue(cpu, 'Package id 0'), 55);
+    assert.equal(sensorValue(cpu, 'Temperature #2'), 50);
+    assert.equal(cpu.Sensors.find(sensor => sensor.Name === 'Package id 0')?.Identifier, '/coretemp/0/temperature/1');
+
+    const memory = report.Memory[0];
+    assert.equal(sensorValue(memory, 'Memory Used'), 8);
+    assert.equal(sensorValue(memory, 'Memory Available'), 8);
+    assert.equal(sensorValue(memory, 'Memory'), 50);
+
+    const gpu = report.GPU[0];
+    assert.equal(gpu.HardwareType, 'GpuAmd');
+    assert.equal(sensorValue(gpu, 'edge'), 61);
+    assert.equal(sensorValue(gpu, 'Power #1'), 45);
+    assert.equal(sensorValue(gpu, 'GPU Core'), 30);
+    assert.equal(sensorValue(gpu, 'GPU Memory Used'), 1024);
+    assert.equal(sensorValue(gpu, 'GPU Memory'), 25);
+
+    assert.deepEqual(
+      report.Storage.map(drive => drive.Name),
+      ['Test NVMe 1TB'],
+    );
+    assert.equal(sensorValue(report.Storage[0], 'Data Read'), (2048 * 512) / 1024 ** 3);
+    assert.equal(sensorValue(report.Storage[0], 'Composite'), 40);
+
+    assert.deepEqual(
+      report.Network.map(adapter => adapter.Name),
+      ['eth0'],
+    );
+    assert.equal(sensorValue(report.Network[0], 'Data Downloaded'), 1);
+    assert.equal(sensorValue(report.Network[0], 'Data Uploaded'), 0.5);
+
+    const battery = report.Battery[0];
+    assert.equal(battery.Name, 'Test Battery');
+    assert.equal(sensorValue(battery, 'Charge Level'), 80);
+    assert.equal(sensorValue(battery, 'Discharge Rate'), 10);
+    assert.equal(sensorValue(battery, 'Degradation Level'), 10);
+    assert.equal(sensorValue(battery, 'Remaining Capacity'), 36000);
+
+    const board = report.Motherboard[0];
+    assert.equal(board.Name, 'Test Vendor Test Board');
+    assert.deepEqual(
+      board.SubHardware.map(chip => chip.Name),
+      ['nct6775'],
+    );
+    assert.equal(sensorValue(board.SubHardware[0], 'Fan #1'), 1200);
+  });
+
+  it('only reads the requested components', async () => {
+    const report = await new LinuxBackend({root, sampleDelayMs: 0}).readOnce(['memory'], 5000);
+    assert.deepEqual(Object.keys(report).sort(), ['Memory', 'Timestamp']);
+  });
+
+  it('reports no loads or rates while counters have not moved', async () => {
+    const report = await new LinuxBackend({root, sampleDelayMs: 10}).readOnce(['cpu', 'network'], 5000);
+    assert.equal(sensorValue(report.CPU[0], 'CPU Total'), null);
+    assert.equal(sensorValue(report.Network[0], 'Download Speed'), 0);
+  });
+
+  it('computes loads from the counters between timed reports', async () => {
+    const proc = new LinuxBackend({root}).launchTimed(200, ['cpu']);
+    const reports: HardwareReport[] = [];
+    try {
+      await new Promise<void>((resolve, reject) => {
+        let buffered = '';
+        proc.stdout!.on('data', (chunk: Buffer) => {
+          buffered += chunk.toString();
+          const lines = buffered.split('\n');
+          buffered = lines.pop()!;
+          for (const line of lines) {
+            reports.push(JSON.parse(line));
+            if (reports.length === 1) {
+              // 75 busy and 25 idle jiffies since the first report
+              const busier = ['cpu  175 0 100 825 0 0 0 0 0 0', PROC_STAT[1], PROC_STAT[2]].join('\n');
+              writeFile(root, 'proc/stat', busier).catch(reject);
+            } else if (reports.length === 2) {
+              resolve();
+            }
+          }
+        });
+      });
+    } finally {
+      proc.kill();
+      await writeFile(root, 'proc/stat', PROC_STAT.join('\n'));
+    }
+    assert.equal(sensorValue(reports[1].CPU[0], 'CPU Total'), 75);
+    assert.equal(sensorValue(reports[1].CPU[0], 'CPU Core #1'), null);
+  });
+});
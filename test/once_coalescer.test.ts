@@ -0,0 +1,187 @@
+import assert from 'node:assert/strict';
+import {describe, it} from 'node:test';
+import type {ComponentType, HardwareReport, MonitorError} from '../src/index.js';
+import {coversComponents, OnceCoalescer} from '../src/once_coalescer.js';
+
+type ReadCall = {
+  components: ComponentType[] | undefined;
+  signal: AbortSignal;
+  resolve: (report: HardwareReport) => void;
+  reject: (err: Error) => void;
+};
+
+function report(label: string): HardwareReport {
+  const item = (name: string) => [{Name: `${label} ${name}`, HardwareType: name, Sensors: [], SubHardware: []}];
+  return {
+    Timestamp: new Date().toISOString(),
+    CPU: item('Cpu'),
+    GPU: item('Gpu'),
+    Memory: item('Memory'),
+    Motherboard: [],
+    Storage: [],
+    Network: [],
+    Battery: [],
+    Controller: [],
+    Psu: [],
+    Uptime: {rawSeconds: 60, formatted: '1m'},
+  };
+}
+
+/** A coalescer whose reads stay pending until the test settles them. */
+function setup(ttlMs: number = 0): {coalescer: OnceCoalescer; reads: ReadCall[]} {
+  const reads: ReadCall[] = [];
+  const coalescer = new OnceCoalescer(
+    (components, _timeoutMs, signal) =>
+      new Promise((resolve, reject) => {
+        reads.push({components, signal, resolve, reject});
+        signal.addEventListener('abort', () => reject(signal.reason));
+      }),
+    ttlMs,
+  );
+  return {coalescer, reads};
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('coversComponents', () => {
+  it('follows the getDataOnce component semantics', () => {
+    assert.equal(coversComponents(undefined, ['cpu', 'uptime']), true);
+    assert.equal(coversComponents(['all'], ['cpu']), true);
+    assert.equal(coversComponents(['all'], undefined), false);
+    assert.equal(coversComponents(['cpu', 'gpu'], ['CPU']), true);
+    assert.equal(coversComponents(['cpu'], ['cpu', 'uptime']), false);
+    assert.equal(coversComponents(['cpu'], ['all']), false);
+  });
+});
+
+describe('OnceCoalescer', () => {
+  it('shares one read between calls of the same tick and hands out separate copies', async () => {
+    const {coalescer, reads} = setup();
+    const calls = [coalescer.get(['cpu'], 1000), coalescer.get(['gpu'], 1000), coalescer.get(['cpu'], 1000)];
+    await tick();
+    assert.equal(reads.length, 1);
+    assert.deepEqual(reads[0].components, ['cpu', 'gpu']);
+
+    reads[0].resolve(report('shared'));
+    const [cpu, gpu, otherCpu] = await Promise.all(calls);
+    assert.deepEqual(Object.keys(cpu).sort(), ['CPU', 'Timestamp']);
+    assert.deepEqual(Object.keys(gpu).sort(), ['GPU', 'Timestamp']);
+    cpu.CPU[0].Name = 'changed';
+    assert.equal(otherCpu.CPU[0].Name, 'shared Cpu');
+  });
+
+  it('joins a read in flight that covers the call', async () => {
+    const {coalescer, reads} = setup();
+    const all = coalescer.get(undefined, 1000);
+    await tick();
+    const cpu = coalescer.get(['cpu'], 1000);
+    await tick();
+    assert.equal(reads.length, 1);
+    reads[0].resolve(report('shared'));
+    assert.equal((await all).CPU[0].Name, 'shared Cpu');
+    assert.equal((await cpu).CPU[0].Name, 'shared Cpu');
+  });
+
+  it('reuses the last report within the TTL, as a copy', async () => {
+    const {coalescer, reads} = setup(60000);
+    const first = coalescer.get(undefined, 1000);
+    await tick();
+    reads[0].resolve(report('cached'));
+    (await first).CPU[0].Name = 'changed';
+
+    const second = await coalescer.get(['cpu'], 1000);
+    assert.equal(reads.length, 1);
+    assert.equal(second.CPU[0].Name, 'cached Cpu');
+  });
+
+  it('reads again without a TTL', async () => {
+    const {coalescer, reads} = setup(0);
+    const first = coalescer.get(undefined, 1000);
+    await tick();
+    reads[0].resolve(report('first'));
+    await first;
+    const second = coalescer.get(undefined, 1000);
+    await tick();
+    assert.equal(reads.length, 2);
+    reads[1].resolve(report('second'));
+    assert.equal((await second).CPU[0].Name, 'second Cpu');
+  });
+
+  it('aborts a shared read only once every caller has aborted', async () => {
+    const {coalescer, reads} = setup();
+    const first = new AbortController();
+    const second = new AbortController();
+    const calls = [coalescer.get(undefined, 1000, first.signal), coalescer.get(undefined, 1000, second.signal)];
+    await tick();
+
+    first.abort();
+    await assert.rejects(calls[0], (err: MonitorError) => err.type === 'aborted');
+    assert.equal(reads[0].signal.aborted, false);
+
+    second.abort();
+    await assert.rejects(calls[1], (err: MonitorError) => err.type === 'aborted');
+    assert.equal(reads[0].signal.aborted, true);
+  });
+
+  it('aborts a shared read once every caller has timed out, and does not offer it to later calls', async () => {
+    const {coalescer, reads} = setup();
+    const calls = [coalescer.get(undefined, 20), coalescer.get(undefined, 40)];
+    await tick();
+
+    await assert.rejects(calls[0], (err: MonitorError) => err.type === 'timeout_error');
+    assert.equal(reads[0].signal.aborted, false);
+    await assert.rejects(calls[1], (err: MonitorError) => err.type === 'timeout_error');
+    assert.equal(reads[0].signal.aborted, true);
+
+    const later = coalescer.get(undefined, 1000);
+    await tick();
+    assert.equal(reads.length, 2);
+    reads[1].resolve(report('later'));
+    assert.equal((await later).CPU[0].Name, 'later Cpu');
+  });
+
+  it('rejects right away for an already aborted signal', async () => {
+    const {coalescer, reads} = setup();
+    const call = coalescer.get(undefined, 1000, AbortSignal.abort());
+    await assert.rejects(call, (err: MonitorError) => err.type === 'aborted');
+    await tick();
+    assert.equal(reads.length, 0);
+  });
+
+  it('serves covered calls from the timed stream and reads again once it stops', async () => {
+    const {coalescer, reads} = setup();
+    coalescer.timedStarted(['cpu', 'gpu']);
+    const waiting = coalescer.get(['cpu'], 1000);
+    coalescer.offerTimed(report('timed'));
+    assert.equal((await waiting).CPU[0].Name, 'timed Cpu');
+    assert.equal((await coalescer.get(['gpu'], 1000)).GPU[0].Name, 'timed Gpu');
+
+    const uncovered = coalescer.get(['memory'], 1000);
+    await tick();
+    assert.equal(reads.length, 1);
+    reads[0].resolve(report('read'));
+    assert.equal((await uncovered).Memory[0].Name, 'read Memory');
+
+    coalescer.timedStarted(['cpu']);
+    const pending = coalescer.get(['cpu'], 1000);
+    coalescer.timedStopped();
+    await tick();
+    assert.equal(reads.length, 2);
+    reads[1].resolve(report('after'));
+    assert.equal((await pending).CPU[0].Name, 'after Cpu');
+  });
+
+  it('keeps its own copy of offered and stored reports', async () => {
+    const {coalescer} = setup(60000);
+    const stored = report('stored');
+    coalescer.store(stored, undefined);
+    stored.CPU[0].Name = 'changed';
+    assert.equal((await coalescer.get(['cpu'], 1000)).CPU[0].Name, 'stored Cpu');
+
+    coalescer.timedStarted(undefined);
+    const offered = report('timed');
+    coalescer.offerTimed(offered);
+    offered.CPU[0].Name = 'changed';
+    assert.equal((await coalescer.get(['cpu'], 1000)).CPU[0].Name, 'timed Cpu');
+  });
+});